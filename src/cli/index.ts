@@ -1,15 +1,42 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import { ko } from '../config/locales/ko';
 import { startRepl } from './repl';
+import { formatError } from './ui';
 import { setupConfig } from './setup';
 import { initProject } from '../config/project';
 import { ProviderType } from '../config/types';
+import { parseSetting, ProviderOverrides, RUNTIME_SETTINGS } from '../config/runtime';
+import { ResponseCache } from '../providers/cache';
+import { handleListSessions } from './repl-handlers';
+import {
+    deleteSessionCommand,
+    exportSessionCommand,
+    importSessionCommand,
+    renameSessionCommand,
+    searchSessionsCommand,
+} from './sessions';
 
 const program = new Command();
 
+/**
+ * 여러 번 지정할 수 있는 옵션 값 모으기
+ */
+const collect = (value: string, previous: string[] = []) => [...previous, value];
+
+/**
+ * 설정 값 옵션 파서 (/set, 환경 변수와 같은 범위 검증, 잘못된 값이면 오류로 종료)
+ */
+const setting = (name: string) => (value: string) => {
+    try {
+        return parseSetting(name, value)[RUNTIME_SETTINGS[name].key];
+    } catch (error) {
+        throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+    }
+};
+
 program
     .name('feelfree')
     .description('FeelFree AI - AI 기반 코딩 어시스턴트')
@@ -20,37 +47,73 @@ program
  */
 program
     .argument('[query]', '실행할 쿼리 (선택사항)')
-    .option('-c, --continue', '이전 대화 이어가기')
-    .option('--provider <type>', '프로바이더 선택 (llamacpp 또는 gemini)')
+    .option('-c, --continue', '이 프로젝트의 최근 대화 이어가기')
+    .option('-r, --resume <session>', '특정 세션 이어가기 (ID 또는 이름)')
+    .option('--provider <type>', '프로바이더 선택 (llamacpp, gemini, anthropic, openai-compatible, ollama)')
     .option('--model <name>', '모델 이름')
-    .option('--temperature <number>', '샘플링 온도 (0.0-1.0)', parseFloat)
-    .option('--max-tokens <number>', '최대 토큰 수', parseInt)
+    .option('--temperature <number>', '샘플링 온도 (0.0-2.0)', setting('temperature'))
+    .option('--top-p <number>', 'Top-p 샘플링 (0.0-1.0)', setting('top-p'))
+    .option('--top-k <number>', 'Top-k 샘플링', setting('top-k'))
+    .option('--max-tokens <number>', '최대 토큰 수', setting('max-tokens'))
+    .option('--min-p <number>', 'Min-p 샘플링 (0.0-1.0)', setting('min-p'))
+    .option('--repeat-penalty <number>', '반복 페널티 (1.0이면 사용 안 함)', setting('repeat-penalty'))
+    .option('--presence-penalty <number>', '등장 페널티 (-2.0-2.0)', setting('presence-penalty'))
+    .option('--frequency-penalty <number>', '빈도 페널티 (-2.0-2.0)', setting('frequency-penalty'))
+    .option('--seed <number>', '난수 시드 (고정하면 같은 출력 재현)', setting('seed'))
+    .option('--stop <text>', '생성 중단 문자열 (여러 번 지정 가능)', collect)
+    .option(
+        '--n-probs <number>',
+        '토큰별 상위 후보 확률 개수 (--output-format json에 포함)',
+        setting('n-probs')
+    )
     .option('--system-prompt <text>', '커스텀 시스템 프롬프트')
     .option('--system-prompt-file <path>', '시스템 프롬프트 파일 경로')
     .option('--append-system-prompt <text>', '기본 프롬프트에 추가할 내용')
     .option('--no-stream', '스트리밍 비활성화')
     .option('--output-format <format>', '출력 형식 (text 또는 json)', 'text')
+    .option('--json-schema <file>', 'JSON Schema로 응답 형식 제한 (llama.cpp 전용, 검증된 JSON만 출력)')
+    .option('--no-cache', '응답 캐시 사용 안 함 (설정에서 켠 경우)')
     .action(async (query, options) => {
         try {
             const provider = options.provider as ProviderType | undefined;
+            const overrides: ProviderOverrides = {
+                model: options.model,
+                temperature: options.temperature,
+                topP: options.topP,
+                topK: options.topK,
+                maxTokens: options.maxTokens,
+                minP: options.minP,
+                repeatPenalty: options.repeatPenalty,
+                presencePenalty: options.presencePenalty,
+                frequencyPenalty: options.frequencyPenalty,
+                seed: options.seed,
+                stopSequences: options.stop,
+                nProbs: options.nProbs,
+            };
 
             if (query) {
                 // 단일 쿼리 모드
                 const { executeQuery } = await import('./query');
                 await executeQuery(query, {
                     provider,
+                    overrides,
                     continueSession: options.continue,
+                    resume: options.resume,
                     streaming: options.stream,
                     systemPrompt: options.systemPrompt,
                     systemPromptFile: options.systemPromptFile,
                     appendSystemPrompt: options.appendSystemPrompt,
                     outputFormat: options.outputFormat,
+                    jsonSchema: options.jsonSchema,
+                    cache: options.cache,
                 });
             } else {
                 // 대화형 모드
                 await startRepl({
                     provider,
+                    overrides,
                     continueSession: options.continue,
+                    resume: options.resume,
                     streaming: options.stream,
                     systemPrompt: options.systemPrompt,
                     systemPromptFile: options.systemPromptFile,
@@ -58,7 +121,7 @@ program
                 });
             }
         } catch (error) {
-            console.error(chalk.red('오류:'), error instanceof Error ? error.message : error);
+            console.error(chalk.red('오류:'), formatError(error));
             process.exit(1);
         }
     });
@@ -101,6 +164,116 @@ program
         }
     });
 
+/**
+ * cache 명령어: 응답 캐시 관리
+ */
+const cacheCommand = program.command('cache').description('응답 캐시 관리 (~/.feelfreeai/cache)');
+
+cacheCommand
+    .command('clear')
+    .description('캐시된 응답 모두 삭제')
+    .action(async () => {
+        try {
+            const removed = await new ResponseCache().clear();
+            console.log(chalk.green(`✅ 캐시 항목 ${removed}개를 삭제했습니다.`));
+        } catch (error) {
+            console.error(chalk.red('오류:'), formatError(error));
+            process.exit(1);
+        }
+    });
+
+cacheCommand
+    .command('stats')
+    .description('캐시 항목 수와 크기 표시')
+    .action(async () => {
+        try {
+            const stats = await new ResponseCache().stats();
+            console.log(chalk.bold.cyan('\n📦 응답 캐시'));
+            console.log(chalk.gray(`  위치: ${stats.dir}`));
+            console.log(chalk.gray(`  항목 수: ${stats.entries}`));
+            console.log(chalk.gray(`  전체 크기: ${(stats.size / 1024).toFixed(2)} KB`));
+            if (stats.oldest && stats.newest) {
+                console.log(chalk.gray(`  가장 오래된 항목: ${stats.oldest.toLocaleString('ko-KR')}`));
+                console.log(chalk.gray(`  가장 최근 항목: ${stats.newest.toLocaleString('ko-KR')}`));
+            }
+            console.log();
+        } catch (error) {
+            console.error(chalk.red('오류:'), formatError(error));
+            process.exit(1);
+        }
+    });
+
+/**
+ * sessions 명령어: 저장된 세션 관리 (REPL의 /chat과 같은 기능)
+ */
+const sessionsCommand = program.command('sessions').description('저장된 대화 세션 관리');
+
+/**
+ * 세션 하위 명령어 실행 (실패하면 종료 코드 1)
+ */
+const runSessionCommand = async (action: () => Promise<unknown>) => {
+    try {
+        await action();
+    } catch (error) {
+        console.error(chalk.red('오류:'), formatError(error));
+        process.exit(1);
+    }
+};
+
+sessionsCommand
+    .command('list')
+    .description('저장된 세션 목록')
+    .action(() => runSessionCommand(handleListSessions));
+
+sessionsCommand
+    .command('search <text>')
+    .description('모든 세션의 메시지에서 검색')
+    .action((text: string) => runSessionCommand(() => searchSessionsCommand(text)));
+
+sessionsCommand
+    .command('rename <session> <name>')
+    .description('세션 이름 변경 (ID 또는 현재 이름으로 지정)')
+    .action((session: string, name: string) =>
+        runSessionCommand(() => renameSessionCommand(session, name))
+    );
+
+sessionsCommand
+    .command('delete <session>')
+    .description('세션 삭제')
+    .action((session: string) => runSessionCommand(() => deleteSessionCommand(session)));
+
+sessionsCommand
+    .command('export <session>')
+    .description('세션 내보내기 (기본: 표준 출력)')
+    .option('--format <format>', '형식 (md, json, html)', 'md')
+    .option('-o, --output <file>', '저장할 파일 경로')
+    .action((session: string, options) =>
+        runSessionCommand(() => exportSessionCommand(session, options.format, options.output))
+    );
+
+sessionsCommand
+    .command('import <file>')
+    .description('JSON으로 내보낸 세션 가져오기')
+    .action((file: string) => runSessionCommand(() => importSessionCommand(file)));
+
+/**
+ * usage 명령어: 토큰 사용량과 비용 보고서
+ */
+program
+    .command('usage')
+    .description('토큰 사용량과 비용 요약 (~/.feelfreeai/usage.jsonl)')
+    .option('--since <period>', '집계 시작 시점 (예: 24h, 7d, 2w, 2025-01-31)')
+    .option('--by <key>', '집계 기준 (model, project, provider)', 'model')
+    .action(async (options) => {
+        try {
+            const { showUsageReport } = await import('./usage');
+            await showUsageReport({ since: options.since, by: options.by });
+        } catch (error) {
+            console.error(chalk.red('오류:'), formatError(error));
+            process.exit(1);
+        }
+    });
+
 /**
  * update 명령어: CLI 업데이트
  */
@@ -1,10 +1,23 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { ProviderFactory } from '../providers/factory';
-import { BaseProvider } from '../providers/base';
-import { ProviderType } from '../config/types';
-import { getSystemPromptWithContext } from '../config/prompts/korean';
-import { readProjectContext } from '../config/project';
+import { BaseProvider, ChatResponse, RetryListener } from '../providers/base';
+import { LlamaCppProvider } from '../providers/llamacpp';
+import { JsonSchema } from '../providers/json-schema';
+import { CachedProvider, ResponseCache } from '../providers/cache';
+import { UsageTrackingProvider } from '../providers/usage';
+import { Message, ProviderType, Session } from '../config/types';
+import { getSystemPrompt } from '../config/prompts/korean';
+import { readProjectContext, getProjectRoot } from '../config/project';
+import { loadRuntimeConfig, ProviderOverrides } from '../config/runtime';
+import { budgetContext } from '../conversation/budget';
+import { appendUsage } from '../conversation/usage';
+import {
+    createSession,
+    findSession,
+    getRecentSession,
+    saveSession,
+} from '../conversation/persistence';
 import fs from 'fs/promises';
 
 /**
@@ -12,12 +25,20 @@ import fs from 'fs/promises';
  */
 export interface QueryOptions {
     provider?: ProviderType;
+    /** CLI 플래그로 지정한 프로바이더 설정 (--model 등) */
+    overrides?: ProviderOverrides;
     continueSession?: boolean;
+    /** 이어갈 세션 ID 또는 이름 */
+    resume?: string;
     streaming?: boolean;
     systemPrompt?: string;
     systemPromptFile?: string;
     appendSystemPrompt?: string;
     outputFormat?: 'text' | 'json';
+    /** 응답 형식을 제한할 JSON Schema 파일 (llama.cpp 전용, 검증된 JSON만 출력) */
+    jsonSchema?: string;
+    /** false면 설정과 관계없이 응답 캐시를 사용하지 않음 (--no-cache) */
+    cache?: boolean;
 }
 
 /**
@@ -27,18 +48,137 @@ export async function executeQuery(query: string, options: QueryOptions): Promis
     const spinner = ora('프로바이더 초기화 중...').start();
 
     try {
-        // 프로바이더 생성
-        const provider = await ProviderFactory.createFromConfig(options.provider);
+        const projectDir = await getProjectRoot();
+
+        // 이어갈 세션 (--resume은 지정 세션, --continue는 이 프로젝트의 최근 세션)
+        let session = await resolveSession(options, projectDir);
+        const schema = options.jsonSchema ? await loadJsonSchema(options.jsonSchema) : undefined;
+
+        // 프로바이더 생성 (CLI 플래그 → 환경 변수 → 프로젝트 설정 → 전역 설정)
+        const { config, providerType } = await loadRuntimeConfig({
+            ...options.overrides,
+            provider: options.provider ?? session?.provider,
+        });
+        // OpenAI 호환 프로바이더도 LlamaCppProvider를 상속하므로 타입으로 확인
+        if (schema && providerType !== 'llamacpp') {
+            throw new Error(
+                `--json-schema는 llama.cpp 프로바이더에서만 사용할 수 있습니다 (현재: ${providerType}).`
+            );
+        }
+        const useCache = config.responseCache?.enabled && options.cache !== false && !schema;
+        const onRetry: RetryListener = (retrying, error, delay, attempt) =>
+            console.warn(
+                chalk.yellow(
+                    `경고: ${retrying.name} 요청 실패, ${Math.ceil(delay / 1000)}초 후 ` +
+                    `다시 시도합니다 (${attempt}번째 재시도): ${error.message}`
+                )
+            );
+        // 구조화 출력은 llama.cpp 전용이고, 응답 캐시는 기본 프로바이더 설정으로 키를 만들므로
+        // 두 경우 모두 대체 프로바이더로 전환하지 않음
+        let baseProvider: BaseProvider;
+        if (schema || useCache) {
+            baseProvider = ProviderFactory.create(providerType, config);
+            baseProvider.onRetry = onRetry;
+        } else {
+            baseProvider = ProviderFactory.createWithFallback(providerType, config, {
+                onFailover: (from, to, error) =>
+                    console.warn(
+                        chalk.yellow(
+                            `경고: ${from.name} 실패 → ${to.name}로 전환합니다.` +
+                            (error instanceof Error ? ` (${error.message})` : '')
+                        )
+                    ),
+                onRetry,
+            });
+        }
+        // 사용량 기록 (구조화 출력은 llama.cpp 프로바이더를 직접 사용하므로 제외,
+        // 캐시된 응답은 프로바이더를 호출하지 않으므로 기록하지 않음)
+        const trackedProvider = schema
+            ? baseProvider
+            : new UsageTrackingProvider(baseProvider, async (tokens, streaming, served) => {
+                const servedType = served.type ?? providerType;
+                try {
+                    await appendUsage({
+                        timestamp: new Date().toISOString(),
+                        provider: servedType,
+                        model: config.providers[servedType].model,
+                        project: projectDir,
+                        sessionId: session?.id,
+                        streaming,
+                        tokens,
+                    });
+                } catch {
+                    // 기록 실패는 응답에 영향을 주지 않음
+                }
+            });
+        const provider =
+            useCache && config.responseCache
+                ? new CachedProvider(
+                    trackedProvider,
+                    new ResponseCache({
+                        ttl: config.responseCache.ttl,
+                        maxSize: config.responseCache.maxSize,
+                    }),
+                    { ...config.providers[providerType], type: providerType }
+                )
+                : trackedProvider;
         spinner.succeed(`${provider.name} 프로바이더 준비 완료`);
 
-        // 시스템 프롬프트 구성
-        const systemPrompt = await buildSystemPrompt(options);
+        // --continue인데 이전 세션이 없으면 새 세션을 시작하여 다음 --continue에서 이어지도록 함
+        if (!session && options.continueSession) {
+            session = createSession([], providerType, undefined, projectDir);
+        }
+
+        const userMessage: Message = { role: 'user', content: query, timestamp: new Date() };
+        const messages = [...(session?.messages ?? []), userMessage];
+
+        // 시스템 프롬프트, FEELFREE.md, 대화 기록을 컨텍스트 윈도우에 맞추기
+        const projectContext = await readProjectContext();
+        const budget = await budgetContext(
+            provider,
+            {
+                systemPrompt: await buildSystemPrompt(options),
+                projectContext: projectContext ?? undefined,
+                messages,
+            },
+            { outputReserve: config.providers[providerType].maxTokens }
+        );
+        if (budget.droppedMessages > 0 || budget.projectDropped) {
+            console.warn(
+                chalk.yellow(
+                    `경고: 컨텍스트 한도로 이전 메시지 ${budget.droppedMessages}개` +
+                    `${budget.projectDropped ? '와 FEELFREE.md' : ''}를 제외했습니다.`
+                )
+            );
+        }
 
         // 쿼리 실행
-        if (options.streaming !== false) {
-            await executeStreamingQuery(provider, query, systemPrompt);
-        } else {
-            await executeNonStreamingQuery(provider, query, systemPrompt, options.outputFormat);
+        const response = schema
+            ? await executeStructuredQuery(provider, budget.messages, budget.systemPrompt, schema)
+            : options.streaming !== false
+                ? await executeStreamingQuery(provider, budget.messages, budget.systemPrompt)
+                : await executeNonStreamingQuery(
+                      provider,
+                      budget.messages,
+                      budget.systemPrompt,
+                      options.outputFormat
+                  );
+
+        // 세션에 이번 대화 추가
+        if (session) {
+            session.messages = [
+                ...messages,
+                {
+                    role: 'assistant',
+                    content: response.text,
+                    timestamp: new Date(),
+                    tokensUsed: response.tokensUsed,
+                    reasoning: config.saveReasoning ? response.reasoning : undefined,
+                },
+            ];
+            session.provider = providerType;
+            session.updatedAt = new Date();
+            await saveSession(session);
         }
     } catch (error) {
         spinner.fail('오류 발생');
@@ -46,22 +186,46 @@ export async function executeQuery(query: string, options: QueryOptions): Promis
     }
 }
 
+/**
+ * 이어갈 세션 찾기
+ */
+async function resolveSession(options: QueryOptions, projectDir: string): Promise<Session | null> {
+    if (options.resume) {
+        const session = await findSession(options.resume);
+        if (!session) {
+            throw new Error(`세션을 찾을 수 없습니다: ${options.resume}`);
+        }
+        return session;
+    }
+
+    if (options.continueSession) {
+        return getRecentSession(projectDir);
+    }
+
+    return null;
+}
+
 /**
  * 스트리밍 쿼리 실행
  */
 async function executeStreamingQuery(
     provider: BaseProvider,
-    query: string,
+    messages: Message[],
     systemPrompt: string
-): Promise<void> {
+): Promise<ChatResponse> {
     console.log(chalk.bold.blue('\n🤖 FeelFree AI:\n'));
 
     let isFirst = true;
 
-    await provider.stream(
-        [{ role: 'user', content: query }],
+    return provider.stream(
+        messages,
         systemPrompt,
         (chunk) => {
+            // 추론 과정은 출력하지 않음 (--output-format json의 reasoning으로 확인)
+            if (chunk.kind === 'reasoning') {
+                return;
+            }
+
             if (isFirst && !chunk.done) {
                 // 첫 번째 청크 - 커서 표시
                 process.stdout.write(chalk.gray('응답 생성 중... '));
@@ -83,18 +247,28 @@ async function executeStreamingQuery(
  */
 async function executeNonStreamingQuery(
     provider: BaseProvider,
-    query: string,
+    messages: Message[],
     systemPrompt: string,
     outputFormat?: 'text' | 'json'
-): Promise<void> {
+): Promise<ChatResponse> {
     const spinner = ora('응답 생성 중...').start();
 
-    const response = await provider.chat([{ role: 'user', content: query }], systemPrompt);
+    const response = await provider.chat(messages, systemPrompt);
 
     spinner.stop();
 
     if (outputFormat === 'json') {
-        console.log(JSON.stringify({ response: response.text, tokens: response.tokensUsed }, null, 2));
+        console.log(JSON.stringify(
+                {
+                    response: response.text,
+                    provider: provider.name,
+                    tokens: response.tokensUsed,
+                    reasoning: response.reasoning,
+                    logprobs: response.logprobs,
+                },
+                null,
+                2
+            ));
     } else {
         console.log(chalk.bold.blue('\n🤖 FeelFree AI:\n'));
         console.log(response.text);
@@ -109,6 +283,54 @@ async function executeNonStreamingQuery(
             );
         }
     }
+
+    return response;
+}
+
+/**
+ * JSON Schema로 제한한 쿼리 실행 (검증된 JSON만 stdout에 출력)
+ */
+async function executeStructuredQuery(
+    provider: BaseProvider,
+    messages: Message[],
+    systemPrompt: string,
+    schema: JsonSchema
+): Promise<ChatResponse> {
+    if (!(provider instanceof LlamaCppProvider)) {
+        throw new Error(
+            `--json-schema는 llama.cpp 프로바이더에서만 사용할 수 있습니다 (현재: ${provider.name}).`
+        );
+    }
+
+    const spinner = ora('응답 생성 중...').start();
+    let value: unknown;
+    try {
+        value = await provider.completeJson(messages, schema, systemPrompt);
+    } finally {
+        spinner.stop();
+    }
+
+    const text = JSON.stringify(value, null, 2);
+    console.log(text);
+    return { text };
+}
+
+/**
+ * JSON Schema 파일 로드
+ */
+async function loadJsonSchema(filePath: string): Promise<JsonSchema> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+        throw new Error(`JSON Schema 파일을 읽을 수 없습니다: ${filePath}`);
+    }
+
+    try {
+        return JSON.parse(content) as JsonSchema;
+    } catch {
+        throw new Error(`JSON Schema 파일이 올바른 JSON이 아닙니다: ${filePath}`);
+    }
 }
 
 /**
@@ -136,8 +358,5 @@ async function buildSystemPrompt(options: QueryOptions): Promise<string> {
             : options.appendSystemPrompt;
     }
 
-    // 프로젝트 컨텍스트 로드
-    const projectContext = await readProjectContext();
-
-    return getSystemPromptWithContext(projectContext ?? undefined, customPrompt);
+    return getSystemPrompt(customPrompt);
 }
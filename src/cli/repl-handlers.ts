@@ -1,13 +1,24 @@
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { Message, ProviderType } from '../config/types';
+import { Message, ProviderType, Session, Tool } from '../config/types';
+import { ko } from '../config/locales/ko';
+import { PermissionDecision } from '../tools/permissions';
 import {
     createSession,
     saveSession,
     loadSession,
     listSessions,
-    findSessionByName,
+    findSession,
 } from '../conversation/persistence';
+import { FileReadResult, readFile } from '../files/reader';
+import { withoutImages } from '../conversation/budget';
+import {
+    deleteSessionCommand,
+    exportSessionCommand,
+    importSessionCommand,
+    renameSessionCommand,
+    searchSessionsCommand,
+} from './sessions';
 
 /**
  * REPL 상태 인터페이스 (repl.ts와 공유)
@@ -15,12 +26,16 @@ import {
 interface ReplState {
     messages: Message[];
     providerType: ProviderType;
+    /** 현재 대화가 저장되는 세션 */
+    session?: Session;
+    /** 프로젝트 루트 (세션 범위) */
+    projectDir: string;
     contextManager: {
-        getFiles(): any[];
+        getFiles(): Array<{ path: string }>;
         getFileCount(): number;
         getContextSize(): number;
         clearAll(): void;
-        addFile(file: any): void;
+        addFile(file: FileReadResult): void;
     };
 }
 
@@ -47,8 +62,11 @@ export async function handleSave(state: ReplState, args: string[]): Promise<void
         sessionName = answer.name.trim() || undefined;
     }
 
-    const session = createSession(state.messages, state.providerType, sessionName);
-    await saveSession(session);
+    const session = await autosaveSession(state);
+    if (sessionName) {
+        session.name = sessionName;
+        await saveSession(session);
+    }
 
     console.log(chalk.green(`\n✅ 대화가 저장되었습니다!`));
     console.log(chalk.gray(`세션 ID: ${session.id}`));
@@ -72,13 +90,10 @@ export async function handleLoad(state: ReplState, args: string[]): Promise<void
     // 인자로 세션 이름/ID가 제공되었으면 직접 로드
     if (args.length > 0) {
         const query = args.join(' ').trim();
-        let session = await findSessionByName(query);
-        if (!session) {
-            session = await loadSession(query);
-        }
+        const session = await findSession(query);
 
         if (session) {
-            state.messages = session.messages;
+            await restoreSession(state, session);
             console.log(chalk.green(`\n✅ 세션을 불러왔습니다!`));
             console.log(chalk.gray(`세션 ID: ${session.id}`));
             if (session.name) {
@@ -110,12 +125,53 @@ export async function handleLoad(state: ReplState, args: string[]): Promise<void
 
     const session = await loadSession(answer.sessionId);
     if (session) {
-        state.messages = session.messages;
+        await restoreSession(state, session);
         console.log(chalk.green(`\n✅ 세션을 불러왔습니다!`));
         console.log(chalk.gray(`메시지 수: ${session.messages.length}\n`));
     }
 }
 
+/**
+ * 세션 내용을 REPL 상태로 복원 (메시지, 컨텍스트 파일)
+ * @returns 다시 읽지 못한 컨텍스트 파일 목록
+ */
+export async function restoreSession(state: ReplState, session: Session): Promise<string[]> {
+    state.session = session;
+    // 이전 버전에서 저장된 이미지 데이터는 다시 보내지 않음
+    state.messages = session.messages.map(withoutImages);
+
+    const missing: string[] = [];
+    state.contextManager.clearAll();
+    for (const filePath of session.contextFiles ?? []) {
+        const result = await readFile(filePath).catch(() => null);
+        if (result?.exists) {
+            state.contextManager.addFile(result);
+        } else {
+            missing.push(filePath);
+        }
+    }
+
+    return missing;
+}
+
+/**
+ * 현재 대화를 세션에 자동 저장 (세션이 없으면 새로 생성)
+ */
+export async function autosaveSession(state: ReplState): Promise<Session> {
+    const session =
+        state.session ?? createSession([], state.providerType, undefined, state.projectDir);
+
+    session.messages = state.messages;
+    session.provider = state.providerType;
+    session.projectDir = session.projectDir ?? state.projectDir;
+    session.contextFiles = state.contextManager.getFiles().map((f) => f.path);
+    session.updatedAt = new Date();
+
+    await saveSession(session);
+    state.session = session;
+    return session;
+}
+
 /**
  * 세션 목록 표시
  */
@@ -138,6 +194,153 @@ export async function handleListSessions(): Promise<void> {
     }
 }
 
+/**
+ * /chat <하위 명령어>: 세션 관리
+ * list | search <텍스트> | rename <세션> <새 이름> | delete <세션>
+ * | export <세션> [--format md|json|html] [--output 파일] | import <파일>
+ */
+export async function handleChat(state: ReplState, args: string[]): Promise<void> {
+    const [subcommand = 'list', ...rest] = args.filter((arg) => arg !== '');
+
+    try {
+        switch (subcommand) {
+            case 'list':
+                await handleListSessions();
+                break;
+            case 'search':
+                await searchSessionsCommand(rest.join(' '));
+                break;
+            case 'rename': {
+                const [target, ...name] = rest;
+                const session = await renameSessionCommand(target, name.join(' '));
+                if (state.session?.id === session.id) {
+                    state.session.name = session.name;
+                }
+                break;
+            }
+            case 'delete': {
+                const session = await deleteSessionCommand(rest.join(' '));
+                // 현재 대화의 세션이면 다음 자동 저장에서 새 세션으로 저장
+                if (state.session?.id === session.id) {
+                    state.session = undefined;
+                }
+                break;
+            }
+            case 'export': {
+                const { values, flags } = parseFlags(rest);
+                const format = flags.format ?? 'md';
+                const target = values.join(' ');
+                const session = target ? await findSession(target) : state.session;
+                if (!session) {
+                    throw new Error(
+                        target ? `세션을 찾을 수 없습니다: ${target}` : '내보낼 세션을 입력하세요.'
+                    );
+                }
+                await exportSessionCommand(
+                    session.id,
+                    format,
+                    flags.output ?? `${session.id}.${format}`
+                );
+                break;
+            }
+            case 'import':
+                await importSessionCommand(rest.join(' '));
+                break;
+            default:
+                console.log(
+                    chalk.red(
+                        '사용법: /chat [list | search <텍스트> | rename <세션> <새 이름> | ' +
+                        'delete <세션> | export <세션> --format md|json|html | import <파일>]'
+                    )
+                );
+        }
+    } catch (error) {
+        console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+    }
+}
+
+/**
+ * --이름 값 형식의 옵션과 나머지 인자 분리
+ */
+function parseFlags(args: string[]): { values: string[]; flags: Record<string, string> } {
+    const values: string[] = [];
+    const flags: Record<string, string> = {};
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('--') && i + 1 < args.length) {
+            flags[args[i].slice(2)] = args[++i];
+        } else {
+            values.push(args[i]);
+        }
+    }
+    return { values, flags };
+}
+
+/**
+ * inquirer 프롬프트가 끝난 뒤 REPL의 raw 입력 모드 복구
+ * (inquirer는 종료 시 stdin을 pause하고 raw 모드를 해제함)
+ */
+export function resumeRawInput(): void {
+    if (process.stdin.isTTY) {
+        process.stdin.setRawMode(true);
+    }
+    process.stdin.resume();
+}
+
+/**
+ * 도구 권한 요청 프롬프트
+ */
+export async function promptToolPermission(
+    tool: Tool,
+    args: Record<string, unknown>
+): Promise<PermissionDecision> {
+    const label = `${tool.name} (${tool.permission})`;
+    console.log(chalk.yellow(`\n🔐 ${ko.tools.requestPermission.replace('{tool}', label)}`));
+    console.log(chalk.gray(`  인자: ${JSON.stringify(args)}`));
+
+    const answer = await inquirer.prompt<{ decision: PermissionDecision }>([
+        {
+            type: 'list',
+            name: 'decision',
+            message: '선택하세요:',
+            choices: [
+                { name: ko.tools.allowOnce, value: 'once' },
+                { name: ko.tools.allowSession, value: 'session' },
+                { name: ko.tools.allowAlways, value: 'always' },
+                { name: ko.tools.deny, value: 'deny' },
+            ],
+        },
+    ]);
+    resumeRawInput();
+
+    if (answer.decision === 'deny') {
+        console.log(chalk.red(ko.tools.permissionDenied.replace('{tool}', label)));
+    } else {
+        console.log(chalk.green(ko.tools.permissionGranted.replace('{tool}', label)));
+    }
+
+    return answer.decision;
+}
+
+/**
+ * 주의가 필요한 명령어 실행 확인
+ */
+export async function confirmCommand(command: string, reason: string): Promise<boolean> {
+    console.log(chalk.yellow(`\n⚠ ${reason}`));
+    console.log(chalk.gray(`  명령어: ${command}`));
+
+    const answer = await inquirer.prompt<{ confirmed: boolean }>([
+        {
+            type: 'confirm',
+            name: 'confirmed',
+            message: ko.prompt.confirm,
+            default: false,
+        },
+    ]);
+    resumeRawInput();
+
+    return answer.confirmed;
+}
+
 /**
  * 날짜 포맷팅
  */
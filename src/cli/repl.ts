@@ -3,31 +3,87 @@ import chalk from 'chalk';
 
 import ora from 'ora';
 import readline from 'readline';
-import { ContextManager } from '../files/context';
-import { getSystemPromptWithContext } from '../config/prompts/korean';
-import { readProjectContext } from '../config/project';
-import { ProviderType, Message } from '../config/types';
+import {
+    compressMessages,
+    shouldCompress,
+    DEFAULT_AUTO_COMPRESS_THRESHOLD,
+    DEFAULT_COMPRESS_KEEP_TURNS,
+} from '../conversation/compressor';
+import {
+    budgetContext,
+    composeSystemPrompt,
+    withoutImages,
+    BudgetResult,
+} from '../conversation/budget';
+import { ContextManager, formatContextFile } from '../files/context';
+import { getSystemPrompt } from '../config/prompts/korean';
+import { readProjectContext, readProjectConfig, getProjectRoot } from '../config/project';
+import { getRecentSession, findSession } from '../conversation/persistence';
+import { appendUsage, formatCost, totalUsage, UsageRecord } from '../conversation/usage';
+import {
+    ProviderType,
+    Message,
+    MessageImage,
+    Session,
+    GlobalConfig,
+    TokenUsage,
+} from '../config/types';
+import {
+    loadRuntimeConfig,
+    parseSetting,
+    ProviderOverrides,
+    RUNTIME_SETTINGS,
+} from '../config/runtime';
 import { ProviderFactory } from '../providers/factory';
-import { BaseProvider } from '../providers/base';
+import { BaseProvider, ChatResponse, StreamChunk } from '../providers/base';
+import { UsageTrackingProvider } from '../providers/usage';
+import { ToolRegistry } from '../tools/registry';
+import { runAgentLoop, summarizeToolResult, DEFAULT_MAX_AGENT_STEPS } from '../tools/agent';
+import { PermissionManager, resolveAllowedTools } from '../tools/permissions';
 import { ko } from '../config/locales/ko';
 import {
     handleSave,
     handleLoad,
     handleListSessions,
+    handleChat,
+    restoreSession,
+    autosaveSession,
+    promptToolPermission,
+    confirmCommand,
+    resumeRawInput,
 } from './repl-handlers';
 import { preprocessInput } from '../files/parser';
+import {
+    checkCommandSafety,
+    executeCommand,
+    formatCommandForContext,
+    summarizeCommandResult,
+    CommandOptions,
+} from '../files/command';
 import { readFile } from '../files/reader';
 import {
     getUserPrompt,
     showWelcome,
     showSuccess,
+    showError,
+    showWarning,
+    showCommandHeader,
     showAssistantHeader,
     showProviderReady,
+    showAgentStep,
+    formatError,
+    formatReasoning,
+    renderCollapsedReasoning,
+    showReasoningTokens,
 } from './ui';
 
 export interface ReplOptions {
     provider?: ProviderType;
+    /** CLI 플래그로 지정한 프로바이더 설정 (--model 등) */
+    overrides?: ProviderOverrides;
     continueSession?: boolean;
+    /** 이어갈 세션 ID 또는 이름 */
+    resume?: string;
     streaming?: boolean;
     systemPrompt?: string;
     systemPromptFile?: string;
@@ -37,10 +93,45 @@ export interface ReplOptions {
 interface ReplState {
     provider: BaseProvider;
     providerType: ProviderType;
+    /** 병합된 런타임 설정 (/set으로 변경) */
+    config: GlobalConfig;
     messages: Message[];
+    /** 기본 시스템 프롬프트 (FEELFREE.md와 참조 파일은 예산에 맞춰 추가) */
     systemPrompt: string;
+    /** FEELFREE.md 내용 */
+    projectContext?: string;
     streaming: boolean;
     contextManager: ContextManager;
+    toolRegistry: ToolRegistry;
+    /** 에이전트 모드 활성화 여부 */
+    agentMode: boolean;
+    agentMaxSteps: number;
+    /** 자동 압축 기준 (컨텍스트 윈도우 대비 비율, 0이면 비활성화) */
+    autoCompressThreshold: number;
+    /** 압축 시 그대로 유지할 최근 턴 수 */
+    compressKeepTurns: number;
+    /** 진행 중인 작업 중단용 (Ctrl+C) */
+    abortController?: AbortController;
+    /** 셸 명령어 실행 옵션 (프로젝트 설정) */
+    commandOptions: CommandOptions;
+    /** 직전 !명령어 결과 (/attach로 첨부) */
+    lastCommandOutput?: string;
+    /** 다음 질문에 첨부할 직전 !명령어 결과 */
+    pendingCommandOutput?: string;
+    /** !명령어 결과를 묻지 않고 다음 질문에 첨부할지 여부 (프로젝트 설정) */
+    attachCommandOutput: boolean;
+    /** 현재 대화가 자동 저장되는 세션 */
+    session?: Session;
+    /** 프로젝트 루트 (세션 범위) */
+    projectDir: string;
+    /** 서버에서 조회한 모델 목록 (/model 자동완성) */
+    availableModels: string[];
+    /** 추론 과정을 펼쳐서 표시할지 여부 (/reasoning show|hide) */
+    showReasoning: boolean;
+    /** 마지막 응답의 추론 과정 (/reasoning으로 펼쳐 보기) */
+    lastReasoning?: string;
+    /** 이번 실행에서 기록한 사용량 (/cost) */
+    usage: UsageRecord[];
 }
 
 interface CommandDef {
@@ -64,11 +155,16 @@ const COMMANDS: CommandDef[] = [
     { name: '/exit', description: 'Exit the program' },
     { name: '/quit', description: 'Exit the program' },
     { name: '/agent', description: 'Activate Agentic Mode' },
+    { name: '/set', description: 'Change model settings (e.g. /set temperature 0.2)' },
+    { name: '/model', description: 'Show available models or switch (e.g. /model llama3.2)' },
+    { name: '/reasoning', description: 'Expand the last reasoning or toggle display (show|hide)' },
+    { name: '/cost', description: 'Show token usage and cost of this session' },
+    { name: '/attach', description: 'Attach the last !command output to the next message' },
 ];
 
 interface AutocompleteState {
     active: boolean;
-    mode: 'command' | 'file' | null;
+    mode: 'command' | 'file' | 'model' | null;
     suggestions: { name: string; description?: string; value: string }[];
     selectedIndex: number;
     queryStartIndex: number; // Index in lineBuffer where the query starts
@@ -81,11 +177,39 @@ export async function startRepl(options: ReplOptions) {
     const spinner = ora('프로바이더 초기화 중...').start();
 
     try {
-        const provider = await ProviderFactory.createFromConfig(options.provider);
+        const projectDir = await getProjectRoot();
+
+        // --resume / --continue: 이어갈 세션을 먼저 찾아 프로바이더 결정에 사용
+        let resumedSession: Session | null = null;
+        if (options.resume) {
+            resumedSession = await findSession(options.resume);
+            if (!resumedSession) {
+                throw new Error(`세션을 찾을 수 없습니다: ${options.resume}`);
+            }
+        } else if (options.continueSession) {
+            resumedSession = await getRecentSession(projectDir);
+        }
+
+        // CLI 플래그 → 환경 변수 → 프로젝트 설정 → 전역 설정 순으로 병합
+        const { config, providerType } = await loadRuntimeConfig({
+            ...options.overrides,
+            provider: options.provider ?? resumedSession?.provider,
+        });
+        const provider = createProvider(providerType, config);
+        const providerInfo = await provider.getInfo();
         spinner.succeed(`${provider.name} 프로바이더 준비 완료`);
-        showProviderReady(provider.name);
+        showProviderReady(provider.name, providerInfo);
 
         const projectContext = await readProjectContext();
+        const projectConfig = await readProjectConfig();
+        const permissions = new PermissionManager(
+            resolveAllowedTools(config, projectConfig),
+            promptToolPermission
+        );
+        const commandOptions: CommandOptions = {
+            timeout: projectConfig?.commandTimeout,
+            maxBuffer: projectConfig?.commandMaxBuffer,
+        };
 
         let customPrompt = options.systemPrompt;
         if (options.systemPromptFile) {
@@ -102,19 +226,43 @@ export async function startRepl(options: ReplOptions) {
                 : options.appendSystemPrompt;
         }
 
-        const systemPrompt = getSystemPromptWithContext(
-            projectContext ?? undefined,
-            customPrompt
-        );
+        const systemPrompt = getSystemPrompt(customPrompt);
 
         const state: ReplState = {
             provider,
-            providerType: options.provider ?? 'gemini',
+            providerType,
+            config,
             messages: [],
             systemPrompt,
+            projectContext: projectContext ?? undefined,
             streaming: options.streaming !== false,
             contextManager: new ContextManager(),
+            toolRegistry: new ToolRegistry({ permissions, confirmCommand, commandOptions }),
+            commandOptions,
+            attachCommandOutput: projectConfig?.attachCommandOutput ?? false,
+            agentMode: false,
+            agentMaxSteps: config.agentMaxSteps ?? DEFAULT_MAX_AGENT_STEPS,
+            autoCompressThreshold: config.autoCompressThreshold ?? DEFAULT_AUTO_COMPRESS_THRESHOLD,
+            compressKeepTurns: config.compressKeepTurns ?? DEFAULT_COMPRESS_KEEP_TURNS,
+            projectDir,
+            availableModels: providerInfo.models ?? [],
+            showReasoning: false,
+            usage: [],
         };
+        state.provider = trackUsage(state, provider);
+
+        if (resumedSession) {
+            const missing = await restoreSession(state, resumedSession);
+            showSuccess(
+                `세션을 이어갑니다: ${resumedSession.name || resumedSession.id} ` +
+                `(${resumedSession.messages.length}개 메시지, ${state.contextManager.getFileCount()}개 파일)`
+            );
+            if (missing.length > 0) {
+                showWarning(`다시 읽지 못한 파일: ${missing.join(', ')}`);
+            }
+        } else if (options.continueSession) {
+            showWarning('이 프로젝트에서 이어갈 이전 세션이 없습니다. 새 대화를 시작합니다.');
+        }
 
         // Raw Mode Implementation with Keypress Events
         readline.emitKeypressEvents(process.stdin);
@@ -154,6 +302,10 @@ export async function startRepl(options: ReplOptions) {
                 } catch (e) {
                     acState.suggestions = [];
                 }
+            } else if (acState.mode === 'model') {
+                acState.suggestions = state.availableModels
+                    .filter(m => m.toLowerCase().includes(query.toLowerCase()))
+                    .map(m => ({ name: m, value: m }));
             }
 
             // Reset selection if out of bounds
@@ -203,16 +355,37 @@ export async function startRepl(options: ReplOptions) {
             }
         };
 
+        // /model 뒤에서는 서버의 모델 목록으로 자동완성
+        const startModelCompletion = () => {
+            if (lineBuffer !== '/model ' || state.availableModels.length === 0) {
+                return;
+            }
+            acState.active = true;
+            acState.mode = 'model';
+            acState.queryStartIndex = lineBuffer.length;
+            acState.selectedIndex = 0;
+            updateSuggestions();
+        };
+
         // Initial prompt
         redrawLine();
 
         process.stdin.on('keypress', async (str: string, key: any) => {
-            // Ctrl+C
+            // Ctrl+C: 진행 중인 작업이 있으면 중단, 없으면 종료
             if (key.ctrl && key.name === 'c') {
+                if (state.abortController) {
+                    state.abortController.abort();
+                    return;
+                }
                 process.stdout.write('\r\n');
                 process.exit(0);
             }
 
+            // 작업 진행 중 (도구 권한 프롬프트 등)에는 입력 무시
+            if (state.abortController) {
+                return;
+            }
+
             // Navigation in Menu
             if (acState.active && acState.suggestions.length > 0) {
                 if (key.name === 'up') {
@@ -241,6 +414,7 @@ export async function startRepl(options: ReplOptions) {
                         acState.active = false;
                         acState.mode = null;
                         acState.suggestions = [];
+                        startModelCompletion();
 
                         // If it was Enter, we might want to execute immediately if it's a command
                         // But for now let's just complete the text and let user hit enter again or continue typing
@@ -289,11 +463,19 @@ export async function startRepl(options: ReplOptions) {
                 // Handle Command
                 if (input.startsWith('/')) {
                     await handleCommand(input, state);
+                    await persistSession(state);
+                    resumeRawInput();
                     redrawLine();
                     return;
                 }
 
-                await handleMessage(input, state);
+                try {
+                    await handleMessage(input, state);
+                } catch (error) {
+                    showError(formatError(error));
+                }
+                await persistSession(state);
+                resumeRawInput();
                 redrawLine();
                 return;
             }
@@ -347,6 +529,7 @@ export async function startRepl(options: ReplOptions) {
                 if (acState.active) {
                     updateSuggestions();
                 }
+                startModelCompletion();
 
                 redrawLine();
             }
@@ -378,13 +561,18 @@ async function handleCommand(input: string, state: ReplState): Promise<void> {
         case 'clear':
             console.clear();
             state.messages = [];
+            state.session = undefined;
+            state.lastCommandOutput = undefined;
+            state.pendingCommandOutput = undefined;
             state.contextManager.clearAll();
             showSuccess(ko.session.cleared);
             break;
         case 'files':
-        case 'context':
-            // Show context (simplified)
             console.log(chalk.blue(`\n현재 컨텍스트: ${state.contextManager.getFileCount()}개 파일`));
+            state.contextManager.getFiles().forEach((f) => console.log(`  ${f.path}`));
+            break;
+        case 'context':
+            await showContextUsage(state);
             break;
         case 'save':
             await handleSave(state as any, args);
@@ -402,11 +590,46 @@ async function handleCommand(input: string, state: ReplState): Promise<void> {
         case 'bug':
             showInfo('버그 리포트: https://github.com/dhsgud/feelfreeai-cli/issues');
             break;
-        case 'chat':
+        case 'agent':
+            if (args.length > 0) {
+                await runAgentTask(args.join(' '), state);
+            } else {
+                state.agentMode = !state.agentMode;
+                showInfo(
+                    state.agentMode
+                        ? `에이전트 모드 활성화 (최대 ${state.agentMaxSteps}스텝, Ctrl+C로 중단)`
+                        : '에이전트 모드 비활성화'
+                );
+            }
+            break;
+        case 'set':
+            handleSet(args, state);
+            break;
+        case 'model':
+            await handleModel(args.join(' ').trim(), state);
+            break;
+        case 'reasoning':
+            handleReasoning(args[0], state);
+            break;
         case 'compress':
+            await handleCompress(state, args[0] ? parseInt(args[0], 10) : undefined);
+            break;
+        case 'cost':
+            handleCost(state);
+            break;
+        case 'attach':
+            if (!state.lastCommandOutput) {
+                showWarning('첨부할 !명령어 결과가 없습니다.');
+                break;
+            }
+            state.pendingCommandOutput = state.lastCommandOutput;
+            showSuccess('직전 명령어 결과를 다음 질문에 함께 전달합니다.');
+            break;
+        case 'chat':
+            await handleChat(state, args);
+            break;
         case 'copy':
         case 'docs':
-        case 'agent':
             showInfo('이 기능은 아직 개발 중입니다.');
             break;
         default:
@@ -414,19 +637,191 @@ async function handleCommand(input: string, state: ReplState): Promise<void> {
     }
 }
 
+/**
+ * 폴백 체인을 포함한 프로바이더 생성 (전환 시 실제로 응답할 프로바이더를 알림)
+ */
+function createProvider(providerType: ProviderType, config: GlobalConfig): BaseProvider {
+    return ProviderFactory.createWithFallback(providerType, config, {
+        onFailover: (from, to, error) => {
+            const reason = error instanceof Error ? ` (${error.message})` : '';
+            showWarning(`${from.name} 실패 → ${to.name}로 전환합니다.${reason}`);
+        },
+        onRetry: (provider, error, delay, attempt) => {
+            showWarning(
+                `${provider.name} 요청 실패, ${Math.ceil(delay / 1000)}초 후 다시 시도합니다 ` +
+                `(${attempt}번째 재시도, Ctrl+C로 취소): ${error.message}`
+            );
+        },
+    });
+}
+
+/**
+ * 응답마다 사용량을 이번 실행 합계와 사용량 기록 파일에 추가
+ */
+function trackUsage(state: ReplState, provider: BaseProvider): BaseProvider {
+    return new UsageTrackingProvider(provider, async (tokens, streaming, served) => {
+        // 폴백 체인이면 기본 프로바이더 대신 실제로 응답한 프로바이더를 기록
+        const providerType = served.type ?? state.providerType;
+        const record: UsageRecord = {
+            timestamp: new Date().toISOString(),
+            provider: providerType,
+            model: state.config.providers[providerType].model,
+            project: state.projectDir,
+            sessionId: state.session?.id,
+            streaming,
+            tokens,
+        };
+        state.usage.push(record);
+        try {
+            await appendUsage(record);
+        } catch (error) {
+            showWarning(`사용량 기록 실패: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+}
+
+/**
+ * /cost: 이번 실행의 토큰 사용량과 비용 (가격은 설정의 pricing)
+ */
+function handleCost(state: ReplState): void {
+    const summary = totalUsage(state.usage, state.config.pricing);
+    if (summary.requests === 0) {
+        showInfo('아직 사용량이 없습니다.');
+        return;
+    }
+
+    console.log(chalk.yellow('\n💰 이번 세션 사용량'));
+    console.log(`  요청 수: ${summary.requests}`);
+    console.log(
+        `  토큰: ${summary.total.toLocaleString()} ` +
+        `(프롬프트: ${summary.prompt.toLocaleString()}, 완료: ${summary.completion.toLocaleString()})`
+    );
+    const unpriced =
+        summary.unpriced > 0 ? chalk.gray(` (가격 미설정 ${summary.unpriced}건 제외)`) : '';
+    console.log(`  비용: ${formatCost(summary.cost)}${unpriced}`);
+    console.log();
+}
+
+/**
+ * /model [이름]: 현재 모델과 서버의 모델 목록을 보여주거나, 이름을 주면 모델을 변경
+ */
+async function handleModel(name: string, state: ReplState): Promise<void> {
+    if (name) {
+        handleSet(['model', name], state);
+        return;
+    }
+
+    const info = await state.provider.getInfo();
+    state.availableModels = info.models ?? [];
+    const current = info.model ?? state.config.providers[state.providerType].model;
+
+    console.log(chalk.yellow(`\n현재 모델: ${current ?? chalk.gray('(기본값)')}`));
+    if (state.availableModels.length === 0) {
+        showInfo('서버에서 모델 목록을 가져올 수 없습니다.');
+    } else {
+        console.log(chalk.blue('사용 가능한 모델:'));
+        for (const model of state.availableModels) {
+            console.log(`  ${model === current ? chalk.green('●') : ' '} ${model}`);
+        }
+    }
+    console.log();
+}
+
+/**
+ * /reasoning [show|hide]: 마지막 추론 과정을 펼쳐 보거나, 응답 중 표시 방식을 변경
+ */
+function handleReasoning(mode: string | undefined, state: ReplState): void {
+    if (mode === 'show' || mode === 'hide') {
+        state.showReasoning = mode === 'show';
+        showInfo(
+            state.showReasoning
+                ? '추론 과정을 펼쳐서 표시합니다.'
+                : '추론 과정을 한 줄로 접어서 표시합니다.'
+        );
+        return;
+    }
+    if (mode) {
+        showError('사용법: /reasoning [show|hide]');
+        return;
+    }
+
+    if (!state.lastReasoning) {
+        showInfo('마지막 응답에 추론 과정이 없습니다.');
+        return;
+    }
+    console.log(`\n${formatReasoning(state.lastReasoning)}\n`);
+}
+
+/**
+ * /set <설정> <값>: 현재 프로바이더 설정을 바꾸고 프로바이더를 다시 생성
+ * 값 없이 호출하면 현재 설정을 보여줍니다. 변경 내용은 이 세션에만 적용됩니다.
+ */
+function handleSet(args: string[], state: ReplState): void {
+    const current = state.config.providers[state.providerType];
+
+    if (args.length === 0) {
+        console.log(chalk.yellow(`\n${state.provider.name} 설정:`));
+        for (const [name, def] of Object.entries(RUNTIME_SETTINGS)) {
+            const value = current[def.key];
+            const shown = Array.isArray(value) ? JSON.stringify(value) : value;
+            console.log(`  ${chalk.bold(name.padEnd(17))} ${shown ?? chalk.gray('(기본값)')}`);
+        }
+        console.log();
+        return;
+    }
+
+    const [name, ...rest] = args;
+    if (rest.length === 0) {
+        showError(`값을 입력하세요. 예: /set ${name} <값>`);
+        return;
+    }
+
+    try {
+        const config: GlobalConfig = {
+            ...state.config,
+            providers: {
+                ...state.config.providers,
+                [state.providerType]: { ...current, ...parseSetting(name, rest.join(' ')) },
+            },
+        };
+        state.provider = trackUsage(state, createProvider(state.providerType, config));
+        state.config = config;
+        showSuccess(`${name} = ${rest.join(' ')}`);
+    } catch (error) {
+        showError(error instanceof Error ? error.message : String(error));
+    }
+}
+
 async function handleMessage(input: string, state: ReplState): Promise<void> {
     // 1. Preprocess input to find file references
     const processed = preprocessInput(input);
+
+    // !명령어: 모델에 보내지 않고 셸에서 직접 실행
+    if (processed.type === 'command' && processed.command) {
+        await runShellCommand(processed.command, state);
+        return;
+    }
+
     let finalInput = processed.processed;
 
-    // 2. Handle file references
+    // 직전 !명령어 결과를 이번 질문에 첨부
+    if (state.pendingCommandOutput) {
+        finalInput = `${state.pendingCommandOutput}\n\n${finalInput}`;
+        state.pendingCommandOutput = undefined;
+    }
+
+    // 2. Handle file references (이미지는 이번 메시지에 첨부)
+    const images: MessageImage[] = [];
     if (processed.type === 'file-reference' && processed.files) {
         console.log(chalk.gray(`\n파일 읽는 중: ${processed.files.join(', ')}...`));
 
         for (const filePath of processed.files) {
             try {
                 const result = await readFile(filePath);
-                if (result.exists) {
+                if (result.exists && result.mimeType && result.data) {
+                    images.push({ mimeType: result.mimeType, data: result.data });
+                    console.log(chalk.green(`✓ ${filePath} 이미지 첨부됨`));
+                } else if (result.exists) {
                     state.contextManager.addFile(result);
                     console.log(chalk.green(`✓ ${filePath} 로드됨`));
                 } else {
@@ -439,43 +834,393 @@ async function handleMessage(input: string, state: ReplState): Promise<void> {
         console.log(); // Empty line
     }
 
-    showAssistantHeader();
+    // 컨텍스트 윈도우에 가까워지면 오래된 대화를 요약
+    const nearLimit = await shouldCompress(
+        state.provider,
+        state.messages,
+        buildSystemPrompt(state),
+        state.autoCompressThreshold
+    );
+    if (nearLimit) {
+        showInfo('대화가 컨텍스트 한도에 가까워 이전 대화를 자동으로 압축합니다.');
+        await handleCompress(state);
+    }
 
-    // 3. Prepare System Prompt with Context
-    const contextText = state.contextManager.getContextText();
-    const systemPromptWithContext = contextText
-        ? `${state.systemPrompt}\n\n${contextText}`
-        : state.systemPrompt;
+    if (state.agentMode) {
+        await runAgentTask(finalInput, state, images);
+        return;
+    }
+
+    const userMessage: Message = {
+        role: 'user',
+        content: finalInput,
+        images: images.length > 0 ? images : undefined,
+        timestamp: new Date(),
+    };
+    const budget = await prepareContext(state, [...state.messages, userMessage]);
+
+    showAssistantHeader();
 
     if (state.streaming) {
-        let isFirst = true;
-        await state.provider.stream(
-            [...state.messages, { role: 'user', content: finalInput }],
-            systemPromptWithContext,
-            (chunk) => {
-                if (isFirst && !chunk.done) {
-                    isFirst = false;
-                }
-                if (!chunk.done) {
-                    process.stdout.write(chunk.text);
-                } else {
-                    console.log('\n');
-                }
+        const controller = new AbortController();
+        state.abortController = controller;
+
+        // 중단되더라도 일부 응답을 보존하기 위해 직접 누적
+        const printer = createStreamPrinter(state.showReasoning);
+        let response: ChatResponse | undefined;
+
+        try {
+            response = await state.provider.stream(
+                budget.messages,
+                budget.systemPrompt,
+                printer.onChunk,
+                undefined,
+                controller.signal
+            );
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                throw error;
             }
-        );
-        // Add to history
-        state.messages.push({ role: 'user', content: finalInput });
-        state.messages.push({ role: 'assistant', content: '(Streaming response)' });
+        } finally {
+            state.abortController = undefined;
+        }
+
+        const interrupted = controller.signal.aborted;
+        if (interrupted) {
+            console.log(chalk.yellow('⏹ 응답이 중단되었습니다.\n'));
+        }
+
+        const { text, reasoning } = printer.output;
+        state.messages.push(withoutImages(userMessage));
+        state.messages.push({
+            role: 'assistant',
+            content: interrupted ? text : response?.text ?? text,
+            timestamp: new Date(),
+            tokensUsed: await recordReasoning(state, reasoning, response?.tokensUsed),
+            interrupted: interrupted || undefined,
+            reasoning: state.config.saveReasoning && reasoning ? reasoning : undefined,
+        });
     } else {
         const spinner = ora('응답 생성 중...').start();
-        const response = await state.provider.chat(
-            [...state.messages, { role: 'user', content: finalInput }],
-            systemPromptWithContext
+        let response: ChatResponse;
+        try {
+            response = await state.provider.chat(budget.messages, budget.systemPrompt);
+        } finally {
+            spinner.stop();
+        }
+        if (response.reasoning) {
+            if (state.showReasoning) {
+                console.log(`${formatReasoning(response.reasoning)}\n`);
+            } else {
+                renderCollapsedReasoning(response.reasoning.length, true);
+            }
+        }
+        console.log(response.text + '\n');
+        state.messages.push(withoutImages(userMessage));
+        state.messages.push({
+            role: 'assistant',
+            content: response.text,
+            timestamp: new Date(),
+            tokensUsed: await recordReasoning(state, response.reasoning, response.tokensUsed),
+            reasoning:
+                state.config.saveReasoning && response.reasoning ? response.reasoning : undefined,
+        });
+    }
+}
+
+/**
+ * 스트리밍 출력 (추론 과정은 흐리게 펼치거나 한 줄로 접고, 본문이 시작되면 구분)
+ */
+function createStreamPrinter(showReasoning: boolean): {
+    output: { text: string; reasoning: string };
+    onChunk: (chunk: StreamChunk) => void;
+} {
+    const output = { text: '', reasoning: '' };
+    let inReasoning = false;
+
+    const endReasoning = () => {
+        if (!inReasoning) {
+            return;
+        }
+        inReasoning = false;
+        if (showReasoning) {
+            process.stdout.write('\n\n');
+        } else {
+            renderCollapsedReasoning(output.reasoning.length, true);
+        }
+    };
+
+    const onChunk = (chunk: StreamChunk) => {
+        if (chunk.done) {
+            endReasoning();
+            console.log('\n');
+            return;
+        }
+
+        if (chunk.kind === 'reasoning') {
+            inReasoning = true;
+            output.reasoning += chunk.text;
+            if (showReasoning) {
+                process.stdout.write(formatReasoning(chunk.text));
+            } else {
+                renderCollapsedReasoning(output.reasoning.length, false);
+            }
+            return;
+        }
+
+        endReasoning();
+        output.text += chunk.text;
+        process.stdout.write(chunk.text);
+    };
+
+    return { output, onChunk };
+}
+
+/**
+ * 마지막 추론 과정을 보관하고 추론 토큰 수를 표시
+ * (서버가 알려주지 않으면 직접 계산하여 사용량에 기록)
+ */
+async function recordReasoning(
+    state: ReplState,
+    reasoning: string | undefined,
+    tokensUsed: TokenUsage | undefined
+): Promise<TokenUsage | undefined> {
+    state.lastReasoning = reasoning || undefined;
+    if (!reasoning) {
+        return tokensUsed;
+    }
+
+    const tokens = tokensUsed?.reasoning ?? (await state.provider.countTokens(reasoning));
+    showReasoningTokens(tokens);
+    return tokensUsed ? { ...tokensUsed, reasoning: tokens } : undefined;
+}
+
+/**
+ * /compress [유지할 턴 수]: 오래된 대화를 요약으로 대체
+ */
+async function handleCompress(state: ReplState, keepTurns?: number): Promise<void> {
+    const turns =
+        keepTurns !== undefined && Number.isInteger(keepTurns) && keepTurns >= 0
+            ? keepTurns
+            : state.compressKeepTurns;
+
+    const spinner = ora('대화 요약 중...').start();
+    try {
+        const result = await compressMessages(state.provider, state.messages, { keepTurns: turns });
+        spinner.stop();
+
+        if (result.summarizedCount === 0) {
+            showInfo(`압축할 대화가 없습니다. (최근 ${turns}턴은 그대로 유지)`);
+            return;
+        }
+
+        state.messages = result.messages;
+        showSuccess(
+            `${result.summarizedCount}개 메시지를 요약했습니다. ` +
+            `토큰: ${result.tokensBefore} → ${result.tokensAfter}`
         );
+    } catch (error) {
         spinner.stop();
-        console.log(response.text + '\n');
-        state.messages.push({ role: 'user', content: finalInput });
-        state.messages.push({ role: 'assistant', content: response.text });
+        showError(`대화 압축 실패: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * 대화가 있으면 현재 세션에 자동 저장 (--continue로 이어가기 위함)
+ */
+async function persistSession(state: ReplState): Promise<void> {
+    if (state.messages.length === 0) {
+        return;
+    }
+
+    try {
+        await autosaveSession(state);
+    } catch (error) {
+        showWarning(`세션 자동 저장 실패: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * FEELFREE.md와 참조 파일을 모두 포함한 시스템 프롬프트 (예산 적용 전)
+ */
+function buildSystemPrompt(state: ReplState): string {
+    const fileText = state.contextManager
+        .getFiles()
+        .map((file) => formatContextFile(file))
+        .join('');
+    return composeSystemPrompt(state.systemPrompt, state.projectContext, fileText);
+}
+
+/**
+ * 전송할 시스템 프롬프트와 메시지를 컨텍스트 윈도우에 맞추고, 제외된 항목을 알림
+ */
+async function prepareContext(state: ReplState, messages: Message[]): Promise<BudgetResult> {
+    const budget = await budgetContext(
+        state.provider,
+        {
+            systemPrompt: state.systemPrompt,
+            projectContext: state.projectContext,
+            files: state.contextManager.getFiles(),
+            messages,
+        },
+        { outputReserve: state.config.providers[state.providerType].maxTokens }
+    );
+
+    if (budget.overBudget) {
+        showWarning('현재 질문만으로도 컨텍스트 한도를 넘습니다. 응답이 잘리거나 실패할 수 있습니다.');
+    }
+    if (budget.projectDropped) {
+        showWarning('컨텍스트 한도로 FEELFREE.md를 제외했습니다.');
+    }
+    if (budget.droppedFiles.length > 0) {
+        showWarning(`컨텍스트 한도로 제외된 파일: ${budget.droppedFiles.join(', ')}`);
+    }
+    if (budget.droppedMessages > 0) {
+        showWarning(
+            `컨텍스트 한도로 이전 메시지 ${budget.droppedMessages}개를 제외했습니다. ` +
+            '/compress로 요약할 수 있습니다.'
+        );
+    }
+
+    return budget;
+}
+
+/**
+ * /context: 컨텍스트 윈도우 사용량 표시
+ */
+async function showContextUsage(state: ReplState): Promise<void> {
+    const { usage, droppedFiles, droppedMessages } = await budgetContext(
+        state.provider,
+        {
+            systemPrompt: state.systemPrompt,
+            projectContext: state.projectContext,
+            files: state.contextManager.getFiles(),
+            messages: state.messages,
+        },
+        { outputReserve: state.config.providers[state.providerType].maxTokens }
+    );
+
+    const used = usage.system + usage.project + usage.files + usage.history;
+    const rows: [string, number][] = [
+        ['시스템 프롬프트', usage.system],
+        ['FEELFREE.md', usage.project],
+        [`참조 파일 (${state.contextManager.getFileCount()}개)`, usage.files],
+        [`대화 기록 (${state.messages.length}개)`, usage.history],
+        ['응답 예약', usage.outputReserve],
+    ];
+
+    const total = used + usage.outputReserve;
+    console.log(chalk.yellow(`\n컨텍스트 사용량: ${total} / ${usage.contextWindow} 토큰`));
+    rows.forEach(([label, tokens]) => console.log(`  ${label.padEnd(20)} ${tokens}`));
+    if (droppedFiles.length > 0 || droppedMessages > 0) {
+        console.log(
+            chalk.gray(`  (제외 예정: 파일 ${droppedFiles.length}개, 메시지 ${droppedMessages}개)`)
+        );
+    }
+    console.log();
+}
+
+/**
+ * !명령어 실행 (결과는 다음 질문에 컨텍스트로 첨부)
+ */
+async function runShellCommand(command: string, state: ReplState): Promise<void> {
+    const safety = checkCommandSafety(command);
+
+    if (safety.isDangerous) {
+        showError(`${safety.reason} 실행이 차단되었습니다: ${command}`);
+        return;
+    }
+
+    if (safety.needsWarning && !(await confirmCommand(command, safety.reason ?? ''))) {
+        showWarning('명령어 실행이 취소되었습니다.');
+        return;
+    }
+
+    const controller = new AbortController();
+    state.abortController = controller;
+    showCommandHeader(command);
+
+    try {
+        const result = await executeCommand(command, {
+            ...state.commandOptions,
+            cwd: process.cwd(),
+            signal: controller.signal,
+            onOutput: (data, stream) => {
+                process.stdout.write(stream === 'stderr' ? chalk.red(data) : data);
+            },
+        });
+
+        console.log(`\n${summarizeCommandResult(result)}`);
+        state.lastCommandOutput = formatCommandForContext(result);
+        if (state.attachCommandOutput) {
+            state.pendingCommandOutput = state.lastCommandOutput;
+            console.log(chalk.gray('💡 이 결과는 다음 질문에 함께 전달됩니다. (예: "왜 실패했어?")\n'));
+        } else {
+            state.pendingCommandOutput = undefined;
+            console.log(chalk.gray('💡 /attach로 이 결과를 다음 질문에 함께 전달할 수 있습니다.\n'));
+        }
+    } finally {
+        state.abortController = undefined;
+    }
+}
+
+/**
+ * 에이전트 루프로 작업 실행
+ */
+async function runAgentTask(
+    task: string,
+    state: ReplState,
+    images: MessageImage[] = []
+): Promise<void> {
+    const userMessage: Message = {
+        role: 'user',
+        content: task,
+        images: images.length > 0 ? images : undefined,
+        timestamp: new Date(),
+    };
+    const budget = await prepareContext(state, [...state.messages, userMessage]);
+    const controller = new AbortController();
+    state.abortController = controller;
+
+    showAssistantHeader();
+    console.log(chalk.gray(`🤖 에이전트 실행 중... (Ctrl+C로 중단)\n`));
+
+    try {
+        const result = await runAgentLoop({
+            provider: state.provider,
+            registry: state.toolRegistry,
+            messages: budget.messages,
+            systemPrompt: budget.systemPrompt,
+            maxSteps: state.agentMaxSteps,
+            signal: controller.signal,
+            onToolResult: (step, call, toolResult) => {
+                showAgentStep(
+                    step,
+                    state.agentMaxSteps,
+                    call.name,
+                    call.arguments,
+                    summarizeToolResult(toolResult)
+                );
+            },
+        });
+
+        state.messages.push(withoutImages(userMessage), ...result.messages);
+
+        if (result.text) {
+            console.log(`\n${result.text}\n`);
+        }
+
+        if (result.stopReason === 'aborted') {
+            console.log(chalk.yellow(`\n⏹ 에이전트가 중단되었습니다. (${result.steps}스텝 실행)\n`));
+        } else if (result.stopReason === 'max-steps') {
+            console.log(chalk.yellow(`\n⚠ 최대 스텝(${state.agentMaxSteps})에 도달하여 중단했습니다.\n`));
+        }
+    } catch (error) {
+        console.log();
+        showError(formatError(error));
+        console.log();
+    } finally {
+        state.abortController = undefined;
     }
 }
 
@@ -0,0 +1,133 @@
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import { Session } from '../config/types';
+import {
+    deleteSession,
+    findSession,
+    renameSession,
+    saveSession,
+    searchSessions,
+} from '../conversation/persistence';
+import {
+    exportSession,
+    importSession,
+    SessionExportFormat,
+    SESSION_EXPORT_FORMATS,
+} from '../conversation/export';
+
+/**
+ * 모든 세션의 메시지에서 검색하여 결과 출력
+ */
+export async function searchSessionsCommand(text: string): Promise<void> {
+    if (!text) {
+        throw new Error('검색어를 입력하세요.');
+    }
+
+    const results = await searchSessions(text);
+    if (results.length === 0) {
+        console.log(chalk.yellow(`\n"${text}"이(가) 포함된 세션이 없습니다.\n`));
+        return;
+    }
+
+    console.log(chalk.bold.blue(`\n🔍 "${text}" 검색 결과: ${results.length}개 세션\n`));
+    for (const { session, matches } of results) {
+        console.log(chalk.bold(`${session.name || '(이름 없음)'} ${chalk.gray(session.id)}`));
+        for (const match of matches.slice(0, 3)) {
+            console.log(chalk.gray(`  [${match.index + 1}] ${match.role}: ${match.snippet}`));
+        }
+        if (matches.length > 3) {
+            console.log(chalk.gray(`  … 외 ${matches.length - 3}개 메시지`));
+        }
+        console.log();
+    }
+}
+
+/**
+ * 세션 이름 변경
+ */
+export async function renameSessionCommand(idOrName: string, name: string): Promise<Session> {
+    if (!idOrName || !name) {
+        throw new Error('세션과 새 이름을 입력하세요.');
+    }
+
+    const session = await renameSession(idOrName, name);
+    if (!session) {
+        throw new Error(`세션을 찾을 수 없습니다: ${idOrName}`);
+    }
+    console.log(chalk.green(`✅ 세션 이름을 변경했습니다: ${name} (${session.id})`));
+    return session;
+}
+
+/**
+ * 세션 삭제
+ * @returns 삭제한 세션
+ */
+export async function deleteSessionCommand(idOrName: string): Promise<Session> {
+    const session = await requireSession(idOrName);
+    await deleteSession(session.id);
+    console.log(chalk.green(`✅ 세션을 삭제했습니다: ${session.name || session.id}`));
+    return session;
+}
+
+/**
+ * 세션 내보내기 (출력 파일이 없으면 표준 출력)
+ */
+export async function exportSessionCommand(
+    idOrName: string,
+    format: string,
+    output?: string
+): Promise<void> {
+    if (!SESSION_EXPORT_FORMATS.includes(format as SessionExportFormat)) {
+        throw new Error(
+            `내보내기 형식은 ${SESSION_EXPORT_FORMATS.join(', ')} 중 하나여야 합니다: ${format}`
+        );
+    }
+
+    const session = await requireSession(idOrName);
+    const content = exportSession(session, format as SessionExportFormat);
+    if (!output) {
+        process.stdout.write(content);
+        return;
+    }
+
+    await fs.writeFile(output, content, 'utf-8');
+    console.log(chalk.green(`✅ 세션을 내보냈습니다: ${output}`));
+}
+
+/**
+ * JSON으로 내보낸 세션 가져오기 (새 ID로 저장)
+ */
+export async function importSessionCommand(filePath: string): Promise<Session> {
+    if (!filePath) {
+        throw new Error('가져올 파일 경로를 입력하세요.');
+    }
+
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+        throw new Error(`파일을 읽을 수 없습니다: ${filePath}`);
+    }
+
+    const session = importSession(content);
+    await saveSession(session);
+    console.log(
+        chalk.green(
+            `✅ 세션을 가져왔습니다: ${session.name || '(이름 없음)'} ` +
+            `(ID: ${session.id}, ${session.messages.length}개 메시지)`
+        )
+    );
+    return session;
+}
+
+async function requireSession(idOrName: string): Promise<Session> {
+    if (!idOrName) {
+        throw new Error('세션 ID 또는 이름을 입력하세요.');
+    }
+
+    const session = await findSession(idOrName);
+    if (!session) {
+        throw new Error(`세션을 찾을 수 없습니다: ${idOrName}`);
+    }
+    return session;
+}
@@ -3,6 +3,7 @@ import chalk from 'chalk';
 import { ko } from '../config/locales/ko';
 import { loadConfig, saveConfig, setApiKey, setEndpoint, setDefaultProvider } from '../config/manager';
 import { ProviderType } from '../config/types';
+import { OllamaProvider } from '../providers/ollama';
 
 /**
  * 설정 마법사
@@ -18,7 +19,13 @@ export async function setupConfig(): Promise<void> {
             message: ko.config.selectProvider,
             choices: [
                 { name: '🌐 Gemini (Google AI - 클라우드)', value: 'gemini' },
+                { name: '🤖 Anthropic Claude (클라우드)', value: 'anthropic' },
                 { name: '🖥️  llama.cpp (로컬 서버)', value: 'llamacpp' },
+                { name: '🦙 Ollama (로컬 서버)', value: 'ollama' },
+                {
+                    name: '🔌 OpenAI 호환 서버 (vLLM, LM Studio, LocalAI, 사내 게이트웨이 등)',
+                    value: 'openai-compatible',
+                },
             ],
         },
     ]);
@@ -26,8 +33,14 @@ export async function setupConfig(): Promise<void> {
     // 프로바이더별 설정
     if (provider === 'gemini') {
         await setupGemini();
+    } else if (provider === 'anthropic') {
+        await setupAnthropic();
     } else if (provider === 'llamacpp') {
         await setupLlamaCpp();
+    } else if (provider === 'openai-compatible') {
+        await setupOpenAICompatible();
+    } else if (provider === 'ollama') {
+        await setupOllama();
     }
 
     // 기본 프로바이더 설정
@@ -79,6 +92,51 @@ async function setupGemini(): Promise<void> {
     await saveConfig(config);
 }
 
+/**
+ * Anthropic 설정
+ */
+async function setupAnthropic(): Promise<void> {
+    console.log(
+        chalk.gray('\nAnthropic API 키는 https://console.anthropic.com/settings/keys 에서 발급받을 수 있습니다.\n')
+    );
+
+    const { apiKey } = await inquirer.prompt([
+        {
+            type: 'password',
+            name: 'apiKey',
+            message: ko.config.enterApiKey,
+            validate: (input: string) => {
+                if (!input || input.trim().length === 0) {
+                    return 'API 키를 입력해주세요.';
+                }
+                return true;
+            },
+        },
+    ]);
+
+    await setApiKey('anthropic', apiKey.trim());
+
+    // 모델 선택
+    const { model } = await inquirer.prompt([
+        {
+            type: 'list',
+            name: 'model',
+            message: '사용할 모델을 선택하세요:',
+            choices: [
+                { name: 'claude-3-5-sonnet-latest (균형 잡힌 성능)', value: 'claude-3-5-sonnet-latest' },
+                { name: 'claude-3-5-haiku-latest (빠르고 저렴)', value: 'claude-3-5-haiku-latest' },
+                { name: 'claude-3-opus-latest (최고 성능)', value: 'claude-3-opus-latest' },
+            ],
+            default: 'claude-3-5-sonnet-latest',
+        },
+    ]);
+
+    // 설정 저장
+    const config = await loadConfig();
+    config.providers.anthropic.model = model;
+    await saveConfig(config);
+}
+
 /**
  * llama.cpp 설정
  */
@@ -110,3 +168,132 @@ async function setupLlamaCpp(): Promise<void> {
 
     await setEndpoint('llamacpp', endpoint.trim());
 }
+
+/**
+ * Ollama 설정
+ */
+async function setupOllama(): Promise<void> {
+    console.log(
+        chalk.gray('\nOllama가 실행 중이어야 합니다.\n' + '기본 엔드포인트: http://localhost:11434\n')
+    );
+
+    const { endpoint } = await inquirer.prompt([
+        {
+            type: 'input',
+            name: 'endpoint',
+            message: ko.config.enterEndpoint,
+            default: 'http://localhost:11434',
+            validate: (input: string) => {
+                if (!input.startsWith('http://') && !input.startsWith('https://')) {
+                    return 'http:// 또는 https://로 시작하는 URL을 입력해주세요.';
+                }
+                return true;
+            },
+        },
+    ]);
+
+    // 설치된 모델 목록을 가져와 선택 (서버에 연결할 수 없으면 직접 입력)
+    let models: string[] = [];
+    try {
+        models = await new OllamaProvider({ endpoint: endpoint.trim(), model: '' }).listModels();
+    } catch {
+        console.log(chalk.yellow('Ollama 서버에 연결할 수 없어 모델 이름을 직접 입력합니다.'));
+    }
+
+    const { model } = await inquirer.prompt([
+        models.length > 0
+            ? {
+                  type: 'list',
+                  name: 'model',
+                  message: '사용할 모델을 선택하세요:',
+                  choices: models,
+              }
+            : {
+                  type: 'input',
+                  name: 'model',
+                  message: '모델 이름을 입력하세요 (예: llama3.2):',
+                  default: 'llama3.2',
+              },
+    ]);
+
+    const config = await loadConfig();
+    config.providers.ollama.endpoint = endpoint.trim();
+    config.providers.ollama.model = model.trim();
+    await saveConfig(config);
+}
+
+/**
+ * OpenAI 호환 서버 설정
+ */
+async function setupOpenAICompatible(): Promise<void> {
+    console.log(
+        chalk.gray(
+            '\n/v1/chat/completions를 제공하는 서버라면 사용할 수 있습니다.\n' +
+            '기본 URL에는 /v1까지 포함하세요. (예: http://localhost:8000/v1)\n'
+        )
+    );
+
+    const answers = await inquirer.prompt<{
+        endpoint: string;
+        apiKey: string;
+        model: string;
+        headers: string;
+    }>([
+        {
+            type: 'input',
+            name: 'endpoint',
+            message: '기본 URL을 입력하세요:',
+            default: 'http://localhost:8000/v1',
+            validate: (input: string) => {
+                if (!input.startsWith('http://') && !input.startsWith('https://')) {
+                    return 'http:// 또는 https://로 시작하는 URL을 입력해주세요.';
+                }
+                return true;
+            },
+        },
+        {
+            type: 'password',
+            name: 'apiKey',
+            message: 'API 키 (Bearer 토큰, 없으면 Enter):',
+        },
+        {
+            type: 'input',
+            name: 'model',
+            message: '모델 이름을 입력하세요:',
+            validate: (input: string) => (input.trim() ? true : '모델 이름을 입력해주세요.'),
+        },
+        {
+            type: 'input',
+            name: 'headers',
+            message: '추가 헤더 (선택, 예: X-Team: ai, X-Env: dev):',
+            validate: (input: string) =>
+                parseHeaders(input) ? true : '"이름: 값" 형식을 쉼표로 구분해 입력해주세요.',
+        },
+    ]);
+
+    const config = await loadConfig();
+    const providerConfig = config.providers['openai-compatible'];
+    providerConfig.endpoint = answers.endpoint.trim().replace(/\/+$/, '');
+    providerConfig.model = answers.model.trim();
+    providerConfig.apiKey = answers.apiKey.trim() || undefined;
+    const headers = parseHeaders(answers.headers);
+    providerConfig.headers = headers && Object.keys(headers).length > 0 ? headers : undefined;
+    await saveConfig(config);
+}
+
+/**
+ * "이름: 값, 이름: 값" 형식의 헤더 파싱 (형식이 잘못되면 null)
+ */
+function parseHeaders(input: string): Record<string, string> | null {
+    const headers: Record<string, string> = {};
+
+    for (const entry of input.split(',').map((e) => e.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) {
+            return null;
+        }
+        headers[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+
+    return headers;
+}
@@ -1,6 +1,16 @@
 import chalk from 'chalk';
 import gradient from 'gradient-string';
 import boxen from 'boxen';
+import {
+    AuthError,
+    ContextLengthError,
+    NetworkError,
+    RateLimitError,
+    ServerError,
+} from '../providers/errors';
+import { AllProvidersFailedError } from '../providers/fallback';
+import { ProviderInfo } from '../providers/base';
+import { ko } from '../config/locales/ko';
 
 /**
  * 그라디언트 색상 팔레트
@@ -50,11 +60,28 @@ export function showWelcome(): void {
 }
 
 /**
- * 프로바이더 준비 완료 메시지
+ * 프로바이더 준비 완료 메시지 (서버에서 조회한 모델 정보 포함)
  */
-export function showProviderReady(providerName: string): void {
-    const message = `✨ ${providerName} 준비 완료`;
-    console.log(boxen(SUCCESS_GRADIENT(message), {
+export function showProviderReady(providerName: string, info: ProviderInfo = {}): void {
+    const details: string[] = [];
+    if (info.model) {
+        details.push(`모델: ${info.model}`);
+    }
+    if (info.contextWindow) {
+        details.push(`컨텍스트: ${info.contextWindow.toLocaleString()} 토큰`);
+    }
+    if (info.chatTemplate) {
+        details.push(`채팅 템플릿: ${describeChatTemplate(info.chatTemplate)}`);
+    }
+    if (info.vision !== undefined) {
+        details.push(`이미지 입력: ${info.vision ? '지원' : '미지원'}`);
+    }
+
+    const message = [
+        SUCCESS_GRADIENT(`✨ ${providerName} 준비 완료`),
+        ...details.map((line) => chalk.gray(line)),
+    ].join('\n');
+    console.log(boxen(message, {
         padding: { left: 2, right: 2, top: 0, bottom: 0 },
         borderStyle: 'round',
         borderColor: 'green',
@@ -62,6 +89,25 @@ export function showProviderReady(providerName: string): void {
     }));
 }
 
+/**
+ * 채팅 템플릿 종류 (Jinja 템플릿의 특수 토큰으로 추정)
+ */
+function describeChatTemplate(template: string): string {
+    if (template.includes('<|im_start|>')) {
+        return 'ChatML';
+    }
+    if (template.includes('<|start_header_id|>')) {
+        return 'Llama 3';
+    }
+    if (template.includes('<start_of_turn>')) {
+        return 'Gemma';
+    }
+    if (template.includes('[INST]')) {
+        return 'Llama 2 / Mistral';
+    }
+    return '사용자 정의';
+}
+
 /**
  * AI 응답 헤더 표시
  */
@@ -70,6 +116,30 @@ export function showAssistantHeader(): void {
     console.log(`\n${header}\n`);
 }
 
+/**
+ * 추론 과정 텍스트 (흐리게)
+ */
+export function formatReasoning(text: string): string {
+    return chalk.dim.italic(text);
+}
+
+/**
+ * 접힌 추론 과정 (생성 중에는 같은 줄을 갱신하고, 끝나면 펼치는 방법을 안내)
+ */
+export function renderCollapsedReasoning(length: number, done: boolean): void {
+    const label = done
+        ? '💭 추론 과정 접힘 (/reasoning 으로 펼치기)'
+        : `💭 생각 중... (${length.toLocaleString()}자)`;
+    process.stdout.write(`\r\x1B[2K${chalk.dim(label)}${done ? '\n\n' : ''}`);
+}
+
+/**
+ * 추론에 쓰인 토큰 수
+ */
+export function showReasoningTokens(tokens: number): void {
+    console.log(chalk.dim(`💭 추론 토큰: ${tokens.toLocaleString()}`));
+}
+
 /**
  * 사용자 프롬프트 문자열 반환
  */
@@ -103,6 +173,45 @@ export function showError(message: string): void {
     console.log(chalk.red(`✗ ${message}`));
 }
 
+/**
+ * 에러 메시지 (프로바이더 에러는 종류별 안내와 원본 메시지)
+ */
+export function formatError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const hint = getErrorHint(error);
+    return hint ? `${hint}\n  ${chalk.gray(message)}` : message;
+}
+
+/**
+ * 프로바이더 에러 종류별 안내
+ */
+function getErrorHint(error: unknown): string | undefined {
+    if (error instanceof RateLimitError) {
+        return error.retryAfter !== undefined
+            ? ko.errors.rateLimitedRetry.replace(
+                '{seconds}',
+                String(Math.ceil(error.retryAfter / 1000))
+            )
+            : ko.errors.rateLimited;
+    }
+    if (error instanceof AuthError) {
+        return ko.errors.authFailed;
+    }
+    if (error instanceof ContextLengthError) {
+        return ko.errors.contextLength;
+    }
+    if (error instanceof NetworkError) {
+        return ko.errors.networkError;
+    }
+    if (error instanceof ServerError) {
+        return ko.errors.serverError;
+    }
+    if (error instanceof AllProvidersFailedError) {
+        return ko.errors.allProvidersFailed;
+    }
+    return undefined;
+}
+
 /**
  * 정보 메시지 표시
  */
@@ -181,6 +290,24 @@ export function showToolExecution(toolName: string, args: any): void {
     console.log(chalk.gray(`  인자: ${JSON.stringify(args, null, 2)}`));
 }
 
+/**
+ * 에이전트 스텝 트레이스 (한 줄 요약)
+ */
+export function showAgentStep(
+    step: number,
+    maxSteps: number,
+    toolName: string,
+    args: Record<string, unknown>,
+    summary: string
+): void {
+    const argsText = JSON.stringify(args);
+    const shortArgs = argsText.length > 60 ? `${argsText.slice(0, 60)}…` : argsText;
+    console.log(
+        chalk.magenta(`  [${step}/${maxSteps}] 🔧 ${toolName}`) +
+        chalk.gray(` ${shortArgs} → ${summary}`)
+    );
+}
+
 /**
  * 자동완성 제안 목록 렌더링
  */
@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+import { loadConfig } from '../config/manager';
+import {
+    formatCost,
+    parseSince,
+    readUsage,
+    summarizeUsage,
+    totalUsage,
+    UsageGroupBy,
+    UsageSummary,
+} from '../conversation/usage';
+
+/**
+ * 사용량 보고서 옵션
+ */
+export interface UsageReportOptions {
+    /** 집계 시작 시점 (7d, 24h, 2025-01-31 등, 없으면 전체 기간) */
+    since?: string;
+    /** 집계 기준 (기본: model) */
+    by?: string;
+}
+
+const GROUP_BY: UsageGroupBy[] = ['model', 'project', 'provider'];
+
+/**
+ * 사용량 기록을 기준별로 집계하여 출력
+ */
+export async function showUsageReport(options: UsageReportOptions): Promise<void> {
+    const groupBy = (options.by ?? 'model') as UsageGroupBy;
+    if (!GROUP_BY.includes(groupBy)) {
+        throw new Error(`집계 기준은 ${GROUP_BY.join(', ')} 중 하나여야 합니다: ${options.by}`);
+    }
+
+    const since = options.since ? parseSince(options.since) : undefined;
+    const config = await loadConfig();
+    const records = await readUsage(since);
+
+    const period = since ? `${since.toLocaleString('ko-KR')} 이후` : '전체 기간';
+    console.log(chalk.bold.cyan(`\n📊 사용량 (${period})`));
+    if (records.length === 0) {
+        console.log(chalk.gray('  기록된 사용량이 없습니다.\n'));
+        return;
+    }
+
+    const rows = summarizeUsage(records, groupBy, config.pricing);
+    const total = totalUsage(records, config.pricing);
+    const width = Math.max(groupBy.length, ...rows.map((row) => row.key.length), total.key.length);
+
+    console.log(chalk.bold(formatRow(width, groupBy, '요청', '프롬프트', '완료', '합계', '비용')));
+    for (const row of rows) {
+        console.log(formatSummary(width, row));
+    }
+    console.log(chalk.bold(formatSummary(width, total)));
+
+    if (total.unpriced > 0) {
+        console.log(
+            chalk.gray(
+                `\n가격이 설정되지 않은 요청 ${total.unpriced}건은 비용에서 제외했습니다. ` +
+                '(설정 파일의 pricing에 100만 토큰당 가격 추가)'
+            )
+        );
+    }
+    console.log();
+}
+
+function formatSummary(width: number, summary: UsageSummary): string {
+    return formatRow(
+        width,
+        summary.key,
+        String(summary.requests),
+        summary.prompt.toLocaleString(),
+        summary.completion.toLocaleString(),
+        summary.total.toLocaleString(),
+        formatCost(summary.cost)
+    );
+}
+
+function formatRow(width: number, key: string, ...columns: string[]): string {
+    return `  ${key.padEnd(width)}  ${columns.map((column) => column.padStart(10)).join('  ')}`;
+}
@@ -44,6 +44,14 @@ export const ko = {
         fileNotFound: '파일을 찾을 수 없습니다: {path}',
         permissionDenied: '권한이 거부되었습니다: {tool}',
         timeout: '요청 시간이 초과되었습니다.',
+        rateLimited: '요청 한도를 초과했습니다. 잠시 후 다시 시도하거나 다른 프로바이더를 사용하세요.',
+        rateLimitedRetry: '요청 한도를 초과했습니다. {seconds}초 후 다시 시도하세요.',
+        authFailed: 'API 키가 잘못되었거나 권한이 없습니다. "feelfree login"으로 다시 설정하세요.',
+        contextLength:
+            '입력이 모델의 컨텍스트 길이를 넘었습니다. /compress로 대화를 요약하거나 참조 파일을 줄이세요.',
+        networkError: '서버에 연결할 수 없습니다. 엔드포인트 설정과 네트워크 상태를 확인하세요.',
+        serverError: '서버 오류가 발생했습니다. 잠시 후 다시 시도하세요.',
+        allProvidersFailed: '폴백 프로바이더를 포함한 모든 프로바이더가 응답하지 않았습니다.',
         unknown: '알 수 없는 오류가 발생했습니다.',
     },
 
@@ -61,6 +69,9 @@ export const ko = {
     providers: {
         llamacpp: 'llama.cpp (로컬)',
         gemini: 'Gemini (클라우드)',
+        anthropic: 'Anthropic Claude (클라우드)',
+        'openai-compatible': 'OpenAI 호환 서버',
+        ollama: 'Ollama (로컬)',
         switching: '프로바이더 전환: {provider}',
     },
 
@@ -90,6 +101,10 @@ export const ko = {
         requestPermission: '{tool} 권한이 필요합니다. 허용하시겠습니까?',
         permissionGranted: '{tool} 권한이 허용되었습니다.',
         permissionDenied: '{tool} 권한이 거부되었습니다.',
+        allowOnce: '이번만 허용',
+        allowSession: '이번 세션 동안 허용',
+        allowAlways: '항상 허용 (설정에 저장)',
+        deny: '거부',
     },
 
     // 프로젝트 초기화
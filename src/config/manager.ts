@@ -3,6 +3,17 @@ import path from 'path';
 import fs from 'fs/promises';
 import { GlobalConfig, ProviderType } from './types';
 
+/**
+ * 지원하는 프로바이더 타입
+ */
+export const PROVIDER_TYPES: ProviderType[] = [
+    'llamacpp',
+    'gemini',
+    'anthropic',
+    'openai-compatible',
+    'ollama',
+];
+
 /**
  * 기본 설정
  */
@@ -22,6 +33,26 @@ const DEFAULT_CONFIG: GlobalConfig = {
             temperature: 0.7,
             maxTokens: 2048,
         },
+        anthropic: {
+            type: 'anthropic',
+            endpoint: 'https://api.anthropic.com',
+            model: 'claude-3-5-sonnet-latest',
+            temperature: 0.7,
+            maxTokens: 4096,
+        },
+        'openai-compatible': {
+            type: 'openai-compatible',
+            endpoint: 'http://localhost:8000/v1',
+            temperature: 0.7,
+            maxTokens: 2048,
+        },
+        ollama: {
+            type: 'ollama',
+            endpoint: 'http://localhost:11434',
+            model: 'llama3.2',
+            temperature: 0.7,
+            maxTokens: 2048,
+        },
     },
     allowedTools: ['read'],
     language: 'ko',
@@ -71,6 +102,12 @@ export const loadConfig = async (): Promise<GlobalConfig> => {
             providers: {
                 llamacpp: { ...DEFAULT_CONFIG.providers.llamacpp, ...config.providers?.llamacpp },
                 gemini: { ...DEFAULT_CONFIG.providers.gemini, ...config.providers?.gemini },
+                anthropic: { ...DEFAULT_CONFIG.providers.anthropic, ...config.providers?.anthropic },
+                'openai-compatible': {
+                    ...DEFAULT_CONFIG.providers['openai-compatible'],
+                    ...config.providers?.['openai-compatible'],
+                },
+                ollama: { ...DEFAULT_CONFIG.providers.ollama, ...config.providers?.ollama },
             },
         };
     } catch (error) {
@@ -97,8 +134,8 @@ export const saveConfig = async (config: GlobalConfig): Promise<void> => {
 export const setApiKey = async (provider: ProviderType, apiKey: string): Promise<void> => {
     const config = await loadConfig();
 
-    if (provider === 'gemini') {
-        config.providers.gemini.apiKey = apiKey;
+    if (provider === 'gemini' || provider === 'anthropic' || provider === 'openai-compatible') {
+        config.providers[provider].apiKey = apiKey;
     }
 
     await saveConfig(config);
@@ -110,8 +147,8 @@ export const setApiKey = async (provider: ProviderType, apiKey: string): Promise
 export const setEndpoint = async (provider: ProviderType, endpoint: string): Promise<void> => {
     const config = await loadConfig();
 
-    if (provider === 'llamacpp') {
-        config.providers.llamacpp.endpoint = endpoint;
+    if (provider === 'llamacpp' || provider === 'openai-compatible' || provider === 'ollama') {
+        config.providers[provider].endpoint = endpoint;
     }
 
     await saveConfig(config);
@@ -128,10 +165,17 @@ export const setDefaultProvider = async (provider: ProviderType): Promise<void>
 
 /**
  * 환경 변수에서 API 키 가져오기
+ * OpenAI 호환 서버는 임의의 엔드포인트이므로 OPENAI_API_KEY 대신 전용 변수만 사용합니다.
  */
 export const getApiKeyFromEnv = (provider: ProviderType): string | undefined => {
     if (provider === 'gemini') {
         return process.env.GEMINI_API_KEY;
     }
+    if (provider === 'anthropic') {
+        return process.env.ANTHROPIC_API_KEY;
+    }
+    if (provider === 'openai-compatible') {
+        return process.env.FEELFREE_OPENAI_COMPATIBLE_API_KEY;
+    }
     return undefined;
 };
@@ -33,6 +33,14 @@ export const findProjectFile = async (startDir: string = process.cwd()): Promise
     return null;
 };
 
+/**
+ * 프로젝트 루트 디렉토리 (FEELFREE.md가 있는 디렉토리, 없으면 현재 디렉토리)
+ */
+export const getProjectRoot = async (): Promise<string> => {
+    const projectFile = await findProjectFile();
+    return projectFile ? path.dirname(projectFile) : process.cwd();
+};
+
 /**
  * 프로젝트 컨텍스트 읽기
  */
@@ -75,6 +83,17 @@ export const readProjectConfig = async (): Promise<ProjectConfig | null> => {
     }
 };
 
+/**
+ * 프로젝트 설정 저장
+ * FEELFREE.md가 있는 디렉토리 (없으면 현재 디렉토리)의 .feelfreeai/settings.json에 저장
+ */
+export const writeProjectConfig = async (config: ProjectConfig): Promise<void> => {
+    const settingsPath = path.join(await getProjectRoot(), PROJECT_SETTINGS_FILE);
+
+    await fs.mkdir(path.dirname(settingsPath), { recursive: true });
+    await fs.writeFile(settingsPath, JSON.stringify(config, null, 2), 'utf-8');
+};
+
 /**
  * 프로젝트 초기화 (FEELFREE.md 생성)
  */
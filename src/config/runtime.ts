@@ -0,0 +1,275 @@
+import {
+    GlobalConfig,
+    ProjectConfig,
+    ProjectProviderConfig,
+    ProviderConfig,
+    ProviderType,
+} from './types';
+import { loadConfig, PROVIDER_TYPES } from './manager';
+import { readProjectConfig } from './project';
+
+/**
+ * 런타임에 덮어쓸 수 있는 프로바이더 설정
+ */
+export type ProviderOverrides = Partial<Omit<ProviderConfig, 'type' | 'apiKey'>>;
+
+/**
+ * 런타임 오버라이드 (CLI 플래그 또는 환경 변수)
+ */
+export interface RuntimeOverrides extends ProviderOverrides {
+    /** 사용할 프로바이더 */
+    provider?: ProviderType;
+}
+
+/**
+ * 병합된 런타임 설정
+ */
+export interface RuntimeConfig {
+    /** 모든 레이어가 병합된 설정 */
+    config: GlobalConfig;
+    /** 사용할 프로바이더 */
+    providerType: ProviderType;
+}
+
+/**
+ * 설정 키 정의 (/set 명령어, 환경 변수 공용)
+ */
+interface SettingDef {
+    /** ProviderConfig 필드 */
+    key: keyof ProviderOverrides;
+    /** 환경 변수 이름 */
+    env: string;
+    /** 값 파싱 (잘못된 값이면 undefined) */
+    parse: (value: string) => ProviderOverrides[keyof ProviderOverrides] | undefined;
+    /** 설명 */
+    description: string;
+}
+
+const parseNumber = (min: number, max: number) => (value: string) => {
+    const num = Number(value);
+    return Number.isFinite(num) && num >= min && num <= max ? num : undefined;
+};
+
+const parseInteger = (min: number) => (value: string) => {
+    const num = Number(value);
+    return Number.isInteger(num) && num >= min ? num : undefined;
+};
+
+const parseString = (value: string) => (value.trim() ? value.trim() : undefined);
+
+/** 쉼표로 구분한 목록 (\n은 줄바꿈으로 변환) */
+const parseList = (value: string) => {
+    const items = value
+        .split(',')
+        .map((item) => item.trim().replace(/\\n/g, '\n'))
+        .filter(Boolean);
+    return items.length > 0 ? items : undefined;
+};
+
+/**
+ * 런타임에 변경 가능한 설정 목록 (키는 /set 명령어 이름)
+ */
+export const RUNTIME_SETTINGS: Record<string, SettingDef> = {
+    model: { key: 'model', env: 'FEELFREE_MODEL', parse: parseString, description: '모델 이름' },
+    endpoint: {
+        key: 'endpoint',
+        env: 'FEELFREE_ENDPOINT',
+        parse: parseString,
+        description: '서버 URL',
+    },
+    temperature: {
+        key: 'temperature',
+        env: 'FEELFREE_TEMPERATURE',
+        parse: parseNumber(0, 2),
+        description: '샘플링 온도 (0.0-2.0)',
+    },
+    'top-p': { key: 'topP', env: 'FEELFREE_TOP_P', parse: parseNumber(0, 1), description: 'Top-p (0.0-1.0)' },
+    'top-k': { key: 'topK', env: 'FEELFREE_TOP_K', parse: parseInteger(0), description: 'Top-k' },
+    'min-p': {
+        key: 'minP',
+        env: 'FEELFREE_MIN_P',
+        parse: parseNumber(0, 1),
+        description: 'Min-p (0.0-1.0)',
+    },
+    'repeat-penalty': {
+        key: 'repeatPenalty',
+        env: 'FEELFREE_REPEAT_PENALTY',
+        parse: parseNumber(0, 2),
+        description: '반복 페널티 (1.0이면 사용 안 함)',
+    },
+    'presence-penalty': {
+        key: 'presencePenalty',
+        env: 'FEELFREE_PRESENCE_PENALTY',
+        parse: parseNumber(-2, 2),
+        description: '등장 페널티 (-2.0-2.0)',
+    },
+    'frequency-penalty': {
+        key: 'frequencyPenalty',
+        env: 'FEELFREE_FREQUENCY_PENALTY',
+        parse: parseNumber(-2, 2),
+        description: '빈도 페널티 (-2.0-2.0)',
+    },
+    seed: {
+        key: 'seed',
+        env: 'FEELFREE_SEED',
+        parse: parseInteger(0),
+        description: '난수 시드 (고정하면 같은 출력 재현)',
+    },
+    stop: {
+        key: 'stopSequences',
+        env: 'FEELFREE_STOP',
+        parse: parseList,
+        description: '생성 중단 문자열 (쉼표로 구분, \\n은 줄바꿈)',
+    },
+    'n-probs': {
+        key: 'nProbs',
+        env: 'FEELFREE_N_PROBS',
+        parse: parseInteger(0),
+        description: '토큰별 상위 후보 확률 개수',
+    },
+    'max-tokens': {
+        key: 'maxTokens',
+        env: 'FEELFREE_MAX_TOKENS',
+        parse: parseInteger(1),
+        description: '최대 토큰 수',
+    },
+    'context-window': {
+        key: 'contextWindow',
+        env: 'FEELFREE_CONTEXT_WINDOW',
+        parse: parseInteger(1),
+        description: '컨텍스트 윈도우 크기 (토큰)',
+    },
+};
+
+/**
+ * 잘못된 설정 값 에러
+ */
+export class InvalidSettingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidSettingError';
+    }
+}
+
+/**
+ * /set 명령어 값 파싱
+ */
+export function parseSetting(name: string, value: string): ProviderOverrides {
+    const def = RUNTIME_SETTINGS[name];
+    if (!def) {
+        throw new InvalidSettingError(
+            `알 수 없는 설정입니다: ${name} (사용 가능: ${Object.keys(RUNTIME_SETTINGS).join(', ')})`
+        );
+    }
+
+    const parsed = def.parse(value);
+    if (parsed === undefined) {
+        throw new InvalidSettingError(`잘못된 값입니다: ${name}=${value} (${def.description})`);
+    }
+
+    return { [def.key]: parsed };
+}
+
+/**
+ * 환경 변수에서 오버라이드 읽기 (잘못된 값은 무시)
+ */
+export function readEnvOverrides(env: NodeJS.ProcessEnv = process.env): RuntimeOverrides {
+    const overrides: RuntimeOverrides = {};
+
+    const provider = env.FEELFREE_PROVIDER as ProviderType | undefined;
+    if (provider && PROVIDER_TYPES.includes(provider)) {
+        overrides.provider = provider;
+    }
+
+    for (const def of Object.values(RUNTIME_SETTINGS)) {
+        const raw = env[def.env];
+        if (raw === undefined) {
+            continue;
+        }
+        const parsed = def.parse(raw);
+        if (parsed !== undefined) {
+            Object.assign(overrides, { [def.key]: parsed });
+        }
+    }
+
+    return overrides;
+}
+
+/**
+ * 프로바이더 설정만 추리고 undefined/NaN 값 제거
+ */
+function compact(overrides: RuntimeOverrides): ProviderOverrides {
+    return Object.fromEntries(
+        Object.entries(overrides).filter(
+            ([key, value]) =>
+                key !== 'provider' &&
+                value !== undefined &&
+                !(typeof value === 'number' && Number.isNaN(value))
+        )
+    );
+}
+
+/**
+ * 프로젝트 설정에서 무시하는 프로바이더 설정 (접속 정보)
+ */
+const PROJECT_UNSAFE_KEYS = ['apiKey', 'endpoint', 'headers'];
+
+/**
+ * 프로젝트 설정의 프로바이더 오버라이드에서 접속 정보 제거
+ * 설정 파일은 검증 없이 읽으므로 타입과 관계없이 실제 키를 걸러냅니다.
+ */
+function projectProviderOverrides(
+    overrides: ProjectProviderConfig | undefined
+): ProjectProviderConfig {
+    return Object.fromEntries(
+        Object.entries(overrides ?? {}).filter(([key]) => !PROJECT_UNSAFE_KEYS.includes(key))
+    );
+}
+
+/**
+ * 설정 레이어 병합
+ *
+ * 우선순위 (낮음 → 높음): 전역 settings.json → 프로젝트 .feelfreeai/settings.json → 환경 변수 → CLI 플래그
+ * 환경 변수와 CLI 플래그는 실제로 사용할 프로바이더에만 적용됩니다.
+ * 프로젝트 설정의 엔드포인트, API 키, 헤더는 무시합니다.
+ */
+export function mergeRuntimeConfig(
+    globalConfig: GlobalConfig,
+    projectConfig: ProjectConfig | null,
+    envOverrides: RuntimeOverrides = {},
+    cliOverrides: RuntimeOverrides = {}
+): RuntimeConfig {
+    const providerType =
+        cliOverrides.provider ??
+        envOverrides.provider ??
+        projectConfig?.defaultProvider ??
+        globalConfig.defaultProvider;
+
+    const providers = { ...globalConfig.providers };
+    for (const type of Object.keys(providers) as ProviderType[]) {
+        providers[type] = {
+            ...providers[type],
+            ...projectProviderOverrides(projectConfig?.providers?.[type]),
+        };
+    }
+
+    providers[providerType] = {
+        ...providers[providerType],
+        ...compact(envOverrides),
+        ...compact(cliOverrides),
+    };
+
+    return {
+        config: { ...globalConfig, defaultProvider: providerType, providers },
+        providerType,
+    };
+}
+
+/**
+ * 전역/프로젝트 설정과 환경 변수를 읽어 런타임 설정 생성
+ */
+export async function loadRuntimeConfig(cliOverrides: RuntimeOverrides = {}): Promise<RuntimeConfig> {
+    const globalConfig = await loadConfig();
+    const projectConfig = await readProjectConfig();
+    return mergeRuntimeConfig(globalConfig, projectConfig, readEnvOverrides(), cliOverrides);
+}
@@ -1,23 +1,33 @@
 /**
- * 프로바이더 타입: llama.cpp 또는 Gemini
+ * 프로바이더 타입: llama.cpp, Gemini, Anthropic, OpenAI 호환 서버 또는 Ollama
  */
-export type ProviderType = 'llamacpp' | 'gemini';
+export type ProviderType = 'llamacpp' | 'gemini' | 'anthropic' | 'openai-compatible' | 'ollama';
 
 /**
  * 도구 권한 타입
  */
 export type ToolPermission = 'read' | 'write' | 'bash' | 'mcp';
 
+/**
+ * Gemini 안전 설정 (예: { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' })
+ */
+export interface SafetySettingConfig {
+    category: string;
+    threshold: string;
+}
+
 /**
  * LLM 프로바이더 설정
  */
 export interface ProviderConfig {
     /** 프로바이더 타입 */
     type: ProviderType;
-    /** API 키 (Gemini 전용) */
+    /** API 키 (Gemini, Anthropic, OpenAI 호환 서버의 Bearer 토큰) */
     apiKey?: string;
-    /** 서버 URL (llama.cpp 전용) */
+    /** 서버 URL (llama.cpp, OpenAI 호환 서버, Ollama, Gemini 프록시) */
     endpoint?: string;
+    /** 추가 HTTP 헤더 (llama.cpp, OpenAI 호환 서버) */
+    headers?: Record<string, string>;
     /** 모델 이름 */
     model?: string;
     /** 온도 (0.0 - 1.0) */
@@ -26,8 +36,28 @@ export interface ProviderConfig {
     topP?: number;
     /** Top-k 샘플링 */
     topK?: number;
+    /** Min-p 샘플링 (llama.cpp) */
+    minP?: number;
+    /** 반복 페널티 (llama.cpp) */
+    repeatPenalty?: number;
+    /** 이미 나온 토큰에 주는 페널티 (llama.cpp, Gemini) */
+    presencePenalty?: number;
+    /** 나온 횟수에 비례하는 페널티 (llama.cpp, Gemini) */
+    frequencyPenalty?: number;
+    /** 난수 시드 (고정하면 같은 입력에 같은 출력을 재현, llama.cpp, Gemini) */
+    seed?: number;
+    /** 토큰마다 반환할 상위 후보 확률 개수 (llama.cpp, Gemini, 비스트리밍 응답) */
+    nProbs?: number;
     /** 최대 토큰 수 */
     maxTokens?: number;
+    /** 컨텍스트 윈도우 크기 (토큰, 미지정 시 프로바이더 기본값) */
+    contextWindow?: number;
+    /** 이 문자열이 나오면 생성 중단 (llama.cpp, Gemini) */
+    stopSequences?: string[];
+    /** 응답 MIME 타입 (Gemini, 예: application/json) */
+    responseMimeType?: string;
+    /** 안전 필터 설정 (Gemini) */
+    safetySettings?: SafetySettingConfig[];
 }
 
 /**
@@ -36,10 +66,15 @@ export interface ProviderConfig {
 export interface GlobalConfig {
     /** 기본 프로바이더 */
     defaultProvider: ProviderType;
+    /** 기본 프로바이더 실패 시 순서대로 시도할 프로바이더 */
+    fallbackProviders?: ProviderType[];
     /** 프로바이더별 설정 */
     providers: {
         llamacpp: ProviderConfig;
         gemini: ProviderConfig;
+        anthropic: ProviderConfig;
+        'openai-compatible': ProviderConfig;
+        ollama: ProviderConfig;
     };
     /** 허용된 도구 권한 */
     allowedTools: ToolPermission[];
@@ -47,6 +82,43 @@ export interface GlobalConfig {
     language: 'ko' | 'en';
     /** 스트리밍 활성화 여부 */
     streaming: boolean;
+    /** 에이전트 모드 최대 스텝 수 */
+    agentMaxSteps?: number;
+    /** 자동 압축 기준 (컨텍스트 윈도우 대비 비율, 0이면 비활성화) */
+    autoCompressThreshold?: number;
+    /** 압축 시 그대로 유지할 최근 턴 수 */
+    compressKeepTurns?: number;
+    /** 모델의 추론 과정을 대화 기록에 저장할지 여부 (기본: false) */
+    saveReasoning?: boolean;
+    /** 단일 쿼리 응답 캐시 (기본: 사용 안 함) */
+    responseCache?: ResponseCacheConfig;
+    /**
+     * 모델별 토큰 가격 (feelfree usage, /cost)
+     * 키는 모델 이름이며, 없으면 프로바이더 이름(예: llamacpp)으로 찾습니다.
+     */
+    pricing?: Record<string, ModelPrice>;
+}
+
+/**
+ * 모델 토큰 가격 (100만 토큰당 USD)
+ */
+export interface ModelPrice {
+    /** 프롬프트(입력) 토큰 */
+    input: number;
+    /** 완료(출력) 토큰 (추론 토큰 포함) */
+    output: number;
+}
+
+/**
+ * 응답 캐시 설정 (~/.feelfreeai/cache)
+ */
+export interface ResponseCacheConfig {
+    /** 캐시 사용 여부 */
+    enabled: boolean;
+    /** 유효 시간 (ms, 기본: 24시간) */
+    ttl?: number;
+    /** 최대 크기 (바이트, 기본: 50MB) */
+    maxSize?: number;
 }
 
 /**
@@ -63,13 +135,55 @@ export interface ProjectConfig {
     allowedTools?: ToolPermission[];
     /** 커스텀 슬래시 명령어 경로 */
     customCommandsPath?: string;
+    /** 셸 명령어 타임아웃 (ms) */
+    commandTimeout?: number;
+    /** 셸 명령어 출력 크기 제한 (바이트) */
+    commandMaxBuffer?: number;
+    /** !명령어 결과를 다음 질문에 자동으로 첨부할지 여부 (기본: false, /attach로 직접 첨부) */
+    attachCommandOutput?: boolean;
+    /** 기본 프로바이더 (프로젝트별 오버라이드) */
+    defaultProvider?: ProviderType;
+    /** 프로바이더 설정 (프로젝트별 오버라이드) */
+    providers?: {
+        [K in ProviderType]?: ProjectProviderConfig;
+    };
 }
 
+/**
+ * 프로젝트 설정에서 바꿀 수 있는 프로바이더 설정
+ * 저장소에 포함된 설정이 API 키를 다른 서버로 보내지 못하도록 접속 정보(엔드포인트, API 키,
+ * 헤더)는 전역 설정, 환경 변수, CLI 플래그에서만 지정합니다.
+ */
+export type ProjectProviderConfig = Partial<
+    Omit<ProviderConfig, 'type' | 'apiKey' | 'endpoint' | 'headers'>
+>;
+
 /**
  * 메시지 역할
  */
 export type MessageRole = 'user' | 'assistant' | 'system' | 'function';
 
+/**
+ * 토큰 사용량
+ */
+export interface TokenUsage {
+    prompt: number;
+    completion: number;
+    total: number;
+    /** 추론 과정에 쓰인 토큰 (알 수 있는 경우, completion에 포함) */
+    reasoning?: number;
+}
+
+/**
+ * 메시지에 첨부된 이미지
+ */
+export interface MessageImage {
+    /** MIME 타입 (예: image/png) */
+    mimeType: string;
+    /** base64 인코딩된 데이터 */
+    data: string;
+}
+
 /**
  * 대화 메시지
  */
@@ -78,10 +192,22 @@ export interface Message {
     role: MessageRole;
     /** 메시지 내용 */
     content: string;
+    /** 첨부 이미지 (멀티모달 모델) */
+    images?: MessageImage[];
     /** 타임스탬프 */
     timestamp?: Date;
     /** 도구 호출 정보 (있는 경우) */
     toolCalls?: ToolCall[];
+    /** 응답 대상 도구 호출 ID (function 역할 메시지 전용) */
+    toolCallId?: string;
+    /** 도구 이름 (function 역할 메시지 전용) */
+    name?: string;
+    /** 응답 생성에 사용된 토큰 수 (assistant 메시지) */
+    tokensUsed?: TokenUsage;
+    /** 사용자가 중단하여 일부만 받은 응답인지 여부 */
+    interrupted?: boolean;
+    /** 모델의 추론 과정 (saveReasoning 설정 시에만 저장, 모델에는 다시 보내지 않음) */
+    reasoning?: string;
 }
 
 /**
@@ -98,6 +224,20 @@ export interface ToolCall {
     id?: string;
 }
 
+/**
+ * 도구 파라미터 스키마 (JSON Schema 부분집합)
+ */
+export interface ToolParameter {
+    /** 파라미터 타입 */
+    type: string;
+    /** 파라미터 설명 */
+    description?: string;
+    /** 허용 값 목록 */
+    enum?: string[];
+    /** 배열 요소 스키마 */
+    items?: ToolParameter;
+}
+
 /**
  * 도구 정의
  */
@@ -109,14 +249,13 @@ export interface Tool {
     /** 파라미터 스키마 (JSON Schema) */
     parameters: {
         type: 'object';
-        properties: Record<string, {
-            type: string;
-            description: string;
-        }>;
+        properties: Record<string, ToolParameter>;
         required?: string[];
     };
-    /** 실행 함수 */
-    execute: (args: any) => Promise<any>;
+    /** 실행에 필요한 권한 */
+    permission: ToolPermission;
+    /** 실행 함수 (signal이 중단되면 실행 중인 작업도 중단) */
+    execute: (args: any, signal?: AbortSignal) => Promise<any>;
 }
 
 /**
@@ -135,4 +274,8 @@ export interface Session {
     updatedAt: Date;
     /** 사용된 프로바이더 */
     provider: ProviderType;
+    /** 세션이 시작된 프로젝트 디렉토리 (--continue 범위 지정용) */
+    projectDir?: string;
+    /** 컨텍스트에 로드된 파일 경로 */
+    contextFiles?: string[];
 }
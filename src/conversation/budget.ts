@@ -0,0 +1,234 @@
+import { Message } from '../config/types';
+import { BaseProvider } from '../providers/base';
+import { ContextFile, formatContextFile } from '../files/context';
+import { countInBatches, countMessageTokens, splitTurns } from './compressor';
+
+/**
+ * 기본값: 응답 생성을 위해 남겨둘 토큰 수
+ */
+export const DEFAULT_OUTPUT_RESERVE = 2048;
+
+/**
+ * 기본값: 참조 파일보다 우선해서 유지할 최근 턴 수 (현재 질문 제외)
+ */
+export const DEFAULT_PRIORITY_TURNS = 2;
+
+/**
+ * 이미지 한 장의 토큰 수 추정값 (프로바이더마다 해상도에 따라 약 250~1600 토큰)
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1024;
+
+/**
+ * 예산에 맞출 컨텍스트 구성 요소
+ */
+export interface BudgetInput {
+    /** 기본 시스템 프롬프트 (항상 포함) */
+    systemPrompt: string;
+    /** FEELFREE.md 내용 */
+    projectContext?: string;
+    /** 참조 파일 (추가된 순서) */
+    files?: ContextFile[];
+    /** 대화 기록 (마지막 턴은 현재 질문으로 항상 포함) */
+    messages: Message[];
+}
+
+/**
+ * 예산 옵션
+ */
+export interface BudgetOptions {
+    /** 컨텍스트 윈도우 크기 (기본값: 프로바이더에 조회) */
+    contextWindow?: number;
+    /** 응답용 예약 토큰 수 */
+    outputReserve?: number;
+    /** 참조 파일보다 우선해서 유지할 최근 턴 수 */
+    priorityTurns?: number;
+}
+
+/**
+ * 항목별 토큰 사용량
+ */
+export interface BudgetUsage {
+    contextWindow: number;
+    outputReserve: number;
+    system: number;
+    project: number;
+    files: number;
+    history: number;
+}
+
+/**
+ * 예산 적용 결과
+ */
+export interface BudgetResult {
+    /** 포함된 프로젝트 컨텍스트와 파일을 합친 시스템 프롬프트 */
+    systemPrompt: string;
+    /** 전송할 메시지 */
+    messages: Message[];
+    /** 제외된 파일 경로 */
+    droppedFiles: string[];
+    /** 제외된 메시지 수 (오래된 턴부터) */
+    droppedMessages: number;
+    /** FEELFREE.md 제외 여부 */
+    projectDropped: boolean;
+    /** 필수 항목만으로도 예산을 넘었는지 여부 */
+    overBudget: boolean;
+    usage: BudgetUsage;
+}
+
+/**
+ * 시스템 프롬프트에 프로젝트 컨텍스트와 파일 텍스트 결합
+ */
+export function composeSystemPrompt(
+    base: string,
+    projectContext?: string,
+    fileText?: string
+): string {
+    let prompt = base;
+    if (projectContext) {
+        prompt += `\n\nProject Context:\n${projectContext}`;
+    }
+    if (fileText) {
+        prompt += `\n\n## 참조 파일\n\n${fileText}`;
+    }
+    return prompt;
+}
+
+/**
+ * 첨부 이미지를 자리 표시 문구로 바꾼 메시지
+ * 이미지는 첨부한 턴에만 보내고, 이후 요청과 저장되는 세션에는 base64 데이터를 남기지 않습니다.
+ */
+export function withoutImages(message: Message): Message {
+    if (!message.images?.length) {
+        return message;
+    }
+    const { images, ...rest } = message;
+    return { ...rest, content: `${message.content}\n\n[이미지 ${images.length}개 첨부됨]` };
+}
+
+/**
+ * 프로바이더별 참조 파일 토큰 수 캐시 (파일을 다시 읽으면 새 객체이므로 새로 셈)
+ */
+const fileTokenCache = new WeakMap<BaseProvider, WeakMap<ContextFile, number>>();
+
+async function countFile(provider: BaseProvider, file: ContextFile): Promise<number> {
+    let cache = fileTokenCache.get(provider);
+    if (!cache) {
+        cache = new WeakMap();
+        fileTokenCache.set(provider, cache);
+    }
+
+    let tokens = cache.get(file);
+    if (tokens === undefined) {
+        tokens = await provider.countTokens(formatContextFile(file));
+        cache.set(file, tokens);
+    }
+    return tokens;
+}
+
+/**
+ * 턴의 토큰 수 (도구 호출 인자와 첨부 이미지 포함)
+ */
+async function countTurn(provider: BaseProvider, turn: Message[]): Promise<number> {
+    const images = turn.reduce((sum, m) => sum + (m.images?.length ?? 0), 0);
+    return (await countMessageTokens(provider, turn)) + images * IMAGE_TOKEN_ESTIMATE;
+}
+
+/**
+ * 컨텍스트 윈도우를 항목별로 나누어 예산에 맞추기
+ *
+ * 텍스트를 중간에서 자르지 않고 우선순위가 낮은 항목을 통째로 제외합니다.
+ * 우선순위: 시스템 프롬프트·현재 질문 > FEELFREE.md > 최근 턴 > 참조 파일(최근 추가 순) > 오래된 턴
+ * 대화 기록은 항상 최근 턴부터 연속으로 포함됩니다.
+ */
+export async function budgetContext(
+    provider: BaseProvider,
+    input: BudgetInput,
+    options: BudgetOptions = {}
+): Promise<BudgetResult> {
+    const contextWindow = options.contextWindow ?? (await provider.getContextWindow());
+    const outputReserve = Math.min(
+        options.outputReserve ?? DEFAULT_OUTPUT_RESERVE,
+        Math.floor(contextWindow / 2)
+    );
+    const priorityTurns = options.priorityTurns ?? DEFAULT_PRIORITY_TURNS;
+    const files = input.files ?? [];
+
+    const turns = splitTurns(input.messages);
+    const currentTurn = turns.pop() ?? [];
+
+    const usage: BudgetUsage = {
+        contextWindow,
+        outputReserve,
+        system: await provider.countTokens(input.systemPrompt),
+        project: 0,
+        files: 0,
+        history: await countTurn(provider, currentTurn),
+    };
+
+    let remaining = contextWindow - outputReserve - usage.system - usage.history;
+    const overBudget = remaining < 0;
+
+    // FEELFREE.md
+    let projectContext: string | undefined;
+    if (input.projectContext) {
+        const tokens = await provider.countTokens(`\n\nProject Context:\n${input.projectContext}`);
+        if (tokens <= remaining) {
+            projectContext = input.projectContext;
+            usage.project = tokens;
+            remaining -= tokens;
+        }
+    }
+
+    // 최근 턴 (최신부터, 하나라도 넘치면 그 이전은 모두 제외)
+    const keptTurns: Message[][] = [];
+    let historyFull = false;
+    const addTurn = async (turn: Message[]): Promise<void> => {
+        const tokens = await countTurn(provider, turn);
+        if (tokens > remaining) {
+            historyFull = true;
+            return;
+        }
+        keptTurns.unshift(turn);
+        usage.history += tokens;
+        remaining -= tokens;
+    };
+
+    let next = turns.length - 1;
+    for (; next >= 0 && keptTurns.length < priorityTurns && !historyFull; next--) {
+        await addTurn(turns[next]);
+    }
+
+    // 참조 파일 (최근 추가된 파일부터, 넘치는 파일만 제외)
+    const fileTokens = await countInBatches(files, (file) => countFile(provider, file));
+    const keptFiles: ContextFile[] = [];
+    const droppedFiles: string[] = [];
+    for (let i = files.length - 1; i >= 0; i--) {
+        const file = files[i];
+        const tokens = fileTokens[i];
+        if (tokens <= remaining) {
+            keptFiles.unshift(file);
+            usage.files += tokens;
+            remaining -= tokens;
+        } else {
+            droppedFiles.unshift(file.path);
+        }
+    }
+
+    // 나머지 오래된 턴
+    for (; next >= 0 && !historyFull; next--) {
+        await addTurn(turns[next]);
+    }
+
+    const messages = [...keptTurns.flat(), ...currentTurn];
+    const fileText = keptFiles.map((file) => formatContextFile(file)).join('');
+
+    return {
+        systemPrompt: composeSystemPrompt(input.systemPrompt, projectContext, fileText),
+        messages,
+        droppedFiles,
+        droppedMessages: input.messages.length - messages.length,
+        projectDropped: !!input.projectContext && !projectContext,
+        overBudget,
+        usage,
+    };
+}
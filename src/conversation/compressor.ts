@@ -0,0 +1,224 @@
+import { Message } from '../config/types';
+import { BaseProvider } from '../providers/base';
+
+/**
+ * 기본값: 그대로 유지할 최근 턴 수
+ */
+export const DEFAULT_COMPRESS_KEEP_TURNS = 4;
+
+/**
+ * 기본값: 자동 압축 기준 (컨텍스트 윈도우 대비 비율)
+ */
+export const DEFAULT_AUTO_COMPRESS_THRESHOLD = 0.8;
+
+/**
+ * 요약 메시지 앞에 붙는 표시
+ */
+export const SUMMARY_PREFIX = '[이전 대화 요약]';
+
+const SUMMARY_SYSTEM_PROMPT = `당신은 대화 기록을 압축하는 도우미입니다.
+주어진 대화를 이후 대화를 이어가는 데 필요한 정보만 남겨 한국어로 요약하세요.
+다음 형식을 지키세요:
+
+## 목표
+## 결정 사항
+## 관련 파일 및 코드
+## 남은 작업
+
+해당 내용이 없는 항목은 "없음"이라고 적으세요.`;
+
+/**
+ * 압축 옵션
+ */
+export interface CompressOptions {
+    /** 그대로 유지할 최근 턴 수 */
+    keepTurns?: number;
+}
+
+/**
+ * 압축 결과
+ */
+export interface CompressResult {
+    /** 압축된 메시지 목록 */
+    messages: Message[];
+    /** 요약으로 대체된 메시지 수 (0이면 압축하지 않음) */
+    summarizedCount: number;
+    /** 압축 전 토큰 수 */
+    tokensBefore: number;
+    /** 압축 후 토큰 수 */
+    tokensAfter: number;
+}
+
+/**
+ * 메시지를 턴 단위로 분할
+ * 턴은 사용자 메시지로 시작하며, 이어지는 응답과 도구 호출/결과를 포함합니다.
+ */
+export function splitTurns(messages: Message[]): Message[][] {
+    const turns: Message[][] = [];
+
+    for (const msg of messages) {
+        if (msg.role === 'user' || turns.length === 0) {
+            turns.push([msg]);
+        } else {
+            turns[turns.length - 1].push(msg);
+        }
+    }
+
+    return turns;
+}
+
+/**
+ * 프로바이더별 메시지 토큰 수 캐시
+ * 대화 기록의 메시지 객체는 요청마다 그대로 다시 쓰이므로, 한 번 센 메시지는 다시 세지 않습니다.
+ * 프로바이더를 바꾸면(토크나이저가 달라지면) 새로 셉니다.
+ */
+const messageTokenCache = new WeakMap<BaseProvider, WeakMap<Message, number>>();
+
+/**
+ * 메시지 하나의 토큰 수 (도구 호출 인자 포함, 첨부 이미지 제외)
+ */
+export async function countMessage(provider: BaseProvider, message: Message): Promise<number> {
+    let cache = messageTokenCache.get(provider);
+    if (!cache) {
+        cache = new WeakMap();
+        messageTokenCache.set(provider, cache);
+    }
+
+    const cached = cache.get(message);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const text = message.content + (message.toolCalls ? JSON.stringify(message.toolCalls) : '');
+    const tokens = await provider.countTokens(text);
+    cache.set(message, tokens);
+    return tokens;
+}
+
+/**
+ * 동시에 보내는 토큰 계산 요청 수 (원격 API의 요청 제한에 걸리지 않도록)
+ */
+export const TOKEN_COUNT_CONCURRENCY = 4;
+
+/**
+ * 항목별 토큰 수를 TOKEN_COUNT_CONCURRENCY개씩 나눠 계산 (입력 순서대로 반환)
+ */
+export async function countInBatches<T>(
+    items: T[],
+    count: (item: T) => Promise<number>
+): Promise<number[]> {
+    const counts: number[] = [];
+    for (let i = 0; i < items.length; i += TOKEN_COUNT_CONCURRENCY) {
+        const batch = items.slice(i, i + TOKEN_COUNT_CONCURRENCY);
+        counts.push(...(await Promise.all(batch.map(count))));
+    }
+    return counts;
+}
+
+/**
+ * 메시지 목록의 토큰 수 계산 (아직 세지 않은 메시지만 몇 개씩 나눠 요청)
+ */
+export async function countMessageTokens(
+    provider: BaseProvider,
+    messages: Message[],
+    systemPrompt?: string
+): Promise<number> {
+    const system = systemPrompt ? await provider.countTokens(systemPrompt) : 0;
+    const counts = await countInBatches(messages, (m) => countMessage(provider, m));
+    return counts.reduce((sum, count) => sum + count, system);
+}
+
+/**
+ * 요약 요청용 대화 기록 텍스트
+ */
+function formatTranscript(messages: Message[]): string {
+    return messages
+        .map((msg) => {
+            if (msg.role === 'function') {
+                return `[도구 결과: ${msg.name}] ${msg.content}`;
+            }
+            const calls = (msg.toolCalls ?? [])
+                .map((call) => `\n[도구 호출: ${call.name}] ${JSON.stringify(call.arguments)}`)
+                .join('');
+            const speaker =
+                msg.role === 'user' ? '사용자' : msg.role === 'assistant' ? '어시스턴트' : '시스템';
+            return `${speaker}: ${msg.content}${calls}`;
+        })
+        .join('\n\n');
+}
+
+/**
+ * 오래된 턴을 프로바이더로 요약하고 최근 턴은 그대로 유지
+ *
+ * 요약은 사용자 메시지와 확인 응답 한 쌍으로 들어가므로
+ * 역할이 번갈아 나와야 하는 프로바이더(Gemini)에서도 그대로 사용할 수 있습니다.
+ */
+export async function compressMessages(
+    provider: BaseProvider,
+    messages: Message[],
+    options: CompressOptions = {}
+): Promise<CompressResult> {
+    const keepTurns = options.keepTurns ?? DEFAULT_COMPRESS_KEEP_TURNS;
+    const turns = splitTurns(messages);
+    const tokensBefore = await countMessageTokens(provider, messages);
+
+    if (turns.length <= keepTurns) {
+        return { messages, summarizedCount: 0, tokensBefore, tokensAfter: tokensBefore };
+    }
+
+    const older = turns.slice(0, turns.length - keepTurns).flat();
+    const recent = turns.slice(turns.length - keepTurns).flat();
+
+    const response = await provider.chat(
+        [
+            {
+                role: 'user',
+                content: `다음 대화를 요약하세요.\n\n---\n${formatTranscript(older)}\n---`,
+            },
+        ],
+        SUMMARY_SYSTEM_PROMPT
+    );
+
+    const compressed: Message[] = [
+        {
+            role: 'user',
+            content: `${SUMMARY_PREFIX}\n${response.text.trim()}`,
+            timestamp: new Date(),
+        },
+        {
+            role: 'assistant',
+            content: '이전 대화 요약을 확인했습니다. 이어서 진행하겠습니다.',
+            timestamp: new Date(),
+        },
+        ...recent,
+    ];
+
+    return {
+        messages: compressed,
+        summarizedCount: older.length,
+        tokensBefore,
+        tokensAfter: await countMessageTokens(provider, compressed),
+    };
+}
+
+/**
+ * 자동 압축이 필요한지 확인
+ * @param threshold 컨텍스트 윈도우 대비 비율 (0이면 항상 false)
+ */
+export async function shouldCompress(
+    provider: BaseProvider,
+    messages: Message[],
+    systemPrompt: string | undefined,
+    threshold: number = DEFAULT_AUTO_COMPRESS_THRESHOLD
+): Promise<boolean> {
+    if (threshold <= 0 || messages.length === 0) {
+        return false;
+    }
+
+    const [tokens, contextWindow] = await Promise.all([
+        countMessageTokens(provider, messages, systemPrompt),
+        provider.getContextWindow(),
+    ]);
+
+    return tokens >= contextWindow * threshold;
+}
@@ -0,0 +1,180 @@
+import { Message, MessageRole, Session } from '../config/types';
+import { PROVIDER_TYPES } from '../config/manager';
+import { generateSessionId } from './persistence';
+
+/**
+ * 세션 내보내기 형식
+ */
+export type SessionExportFormat = 'md' | 'json' | 'html';
+
+export const SESSION_EXPORT_FORMATS: SessionExportFormat[] = ['md', 'json', 'html'];
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+    user: '👤 사용자',
+    assistant: '🤖 어시스턴트',
+    system: '⚙️ 시스템',
+    function: '🔧 도구 결과',
+};
+
+/**
+ * 세션을 지정한 형식의 문자열로 변환
+ */
+export function exportSession(session: Session, format: SessionExportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(session, null, 2);
+        case 'md':
+            return toMarkdown(session);
+        case 'html':
+            return toHtml(session);
+    }
+}
+
+/**
+ * 내보낸 JSON을 세션으로 변환
+ * 기존 세션을 덮어쓰지 않도록 새 ID를 부여합니다.
+ */
+export function importSession(content: string): Session {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error(
+            '세션 파일이 올바른 JSON이 아닙니다. (JSON으로 내보낸 파일만 가져올 수 있습니다)'
+        );
+    }
+
+    const raw = data as Partial<Session> | null;
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.messages)) {
+        throw new Error('세션 파일 형식이 올바르지 않습니다: messages 배열이 없습니다.');
+    }
+    raw.messages.forEach((msg: Partial<Message>, index: number) => {
+        // in 연산자는 toString 같은 프로토타입 속성도 통과시키므로 자체 속성만 확인
+        const validRole =
+            !!msg?.role && Object.prototype.hasOwnProperty.call(ROLE_LABELS, msg.role);
+        if (!msg || !validRole || typeof msg.content !== 'string') {
+            throw new Error(`세션 파일 형식이 올바르지 않습니다: ${index}번째 메시지`);
+        }
+    });
+    if (!raw.provider || !PROVIDER_TYPES.includes(raw.provider)) {
+        throw new Error(`알 수 없는 프로바이더입니다: ${raw.provider}`);
+    }
+
+    const now = new Date();
+    return {
+        id: generateSessionId(),
+        name: raw.name,
+        messages: raw.messages.map((msg) => ({
+            ...msg,
+            timestamp: msg.timestamp ? new Date(msg.timestamp) : undefined,
+        })),
+        createdAt: raw.createdAt ? new Date(raw.createdAt) : now,
+        updatedAt: now,
+        provider: raw.provider,
+        projectDir: raw.projectDir,
+        contextFiles: raw.contextFiles,
+    };
+}
+
+/**
+ * Markdown 변환 (메시지마다 역할 제목)
+ */
+function toMarkdown(session: Session): string {
+    const lines = [
+        `# ${session.name || '대화'}`,
+        '',
+        `- ID: ${session.id}`,
+        `- 프로바이더: ${session.provider}`,
+        `- 생성: ${toIsoString(session.createdAt)}`,
+        `- 마지막 수정: ${toIsoString(session.updatedAt)}`,
+    ];
+    if (session.projectDir) {
+        lines.push(`- 프로젝트: ${session.projectDir}`);
+    }
+
+    for (const msg of session.messages) {
+        lines.push('', '---', '', `### ${getRoleLabel(msg)}`, '');
+        if (msg.role === 'function') {
+            lines.push('```', msg.content, '```');
+        } else if (msg.content) {
+            lines.push(msg.content);
+        }
+        if (msg.images?.length) {
+            lines.push('', `_(이미지 ${msg.images.length}개 첨부)_`);
+        }
+        for (const call of msg.toolCalls ?? []) {
+            lines.push('', `> 도구 호출: \`${call.name}\` ${JSON.stringify(call.arguments)}`);
+        }
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 단독으로 열 수 있는 HTML 문서로 변환
+ */
+function toHtml(session: Session): string {
+    const title = escapeHtml(session.name || '대화');
+    const meta =
+        `ID: ${escapeHtml(session.id)} · 프로바이더: ${escapeHtml(session.provider)} · ` +
+        `마지막 수정: ${toIsoString(session.updatedAt)}`;
+    const messages = session.messages.map((msg) => {
+        const extras = [
+            ...(msg.images?.length
+                ? [`<p class="meta">이미지 ${msg.images.length}개 첨부</p>`]
+                : []),
+            ...(msg.toolCalls ?? []).map(
+                (call) =>
+                    `<p class="meta">도구 호출: <code>${escapeHtml(call.name)}</code> ` +
+                    `${escapeHtml(JSON.stringify(call.arguments))}</p>`
+            ),
+        ];
+        return [
+            `<section class="message ${msg.role}">`,
+            `<h3>${escapeHtml(getRoleLabel(msg))}</h3>`,
+            `<pre>${escapeHtml(msg.content)}</pre>`,
+            ...extras,
+            '</section>',
+        ].join('\n');
+    });
+
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+.message { border-left: 4px solid #ccc; margin: 1rem 0; padding: 0 1rem; }
+.message.user { border-color: #4a90d9; }
+.message.assistant { border-color: #50a060; }
+.message.function { border-color: #d9a04a; }
+pre { white-space: pre-wrap; word-wrap: break-word; font-family: inherit; }
+.meta { color: #777; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${meta}</p>
+${messages.join('\n')}
+</body>
+</html>
+`;
+}
+
+function getRoleLabel(msg: Message): string {
+    const label = ROLE_LABELS[msg.role];
+    return msg.role === 'function' && msg.name ? `${label} (${msg.name})` : label;
+}
+
+function toIsoString(date: Date | string): string {
+    return new Date(date).toISOString();
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -121,7 +121,8 @@ export function generateSessionId(): string {
 export function createSession(
     messages: Message[],
     provider: ProviderType,
-    name?: string
+    name?: string,
+    projectDir?: string
 ): Session {
     const now = new Date();
     return {
@@ -131,15 +132,27 @@ export function createSession(
         createdAt: now,
         updatedAt: now,
         provider,
+        projectDir,
     };
 }
 
 /**
  * 최근 세션 가져오기
+ * @param projectDir 지정하면 해당 프로젝트 디렉토리의 세션만 대상으로 함
  */
-export async function getRecentSession(): Promise<Session | null> {
+export async function getRecentSession(projectDir?: string): Promise<Session | null> {
     const sessions = await listSessions();
-    return sessions.length > 0 ? sessions[0] : null;
+    const candidates = projectDir
+        ? sessions.filter((s) => s.projectDir === projectDir)
+        : sessions;
+    return candidates.length > 0 ? candidates[0] : null;
+}
+
+/**
+ * 세션 이름 또는 ID로 찾기 (이름 우선)
+ */
+export async function findSession(idOrName: string): Promise<Session | null> {
+    return (await findSessionByName(idOrName)) ?? (await loadSession(idOrName));
 }
 
 /**
@@ -149,3 +162,81 @@ export async function findSessionByName(name: string): Promise<Session | null> {
     const sessions = await listSessions();
     return sessions.find((s) => s.name === name) ?? null;
 }
+
+/**
+ * 세션 검색 결과
+ */
+export interface SessionSearchResult {
+    session: Session;
+    /** 검색어가 포함된 메시지 */
+    matches: SessionSearchMatch[];
+}
+
+/**
+ * 검색어가 포함된 메시지
+ */
+export interface SessionSearchMatch {
+    /** 메시지 위치 */
+    index: number;
+    role: Message['role'];
+    /** 검색어 주변 내용 */
+    snippet: string;
+}
+
+/**
+ * 모든 세션의 이름과 메시지 내용에서 검색 (대소문자 무시, 최신 세션부터)
+ */
+export async function searchSessions(
+    text: string,
+    snippetLength = 80
+): Promise<SessionSearchResult[]> {
+    const query = text.toLowerCase();
+    const sessions = await listSessions();
+    const results: SessionSearchResult[] = [];
+
+    for (const session of sessions) {
+        const matches: SessionSearchMatch[] = [];
+        session.messages.forEach((msg, index) => {
+            const position = msg.content.toLowerCase().indexOf(query);
+            if (position !== -1) {
+                matches.push({
+                    index,
+                    role: msg.role,
+                    snippet: getSnippet(msg.content, position, query.length, snippetLength),
+                });
+            }
+        });
+
+        if (matches.length > 0 || session.name?.toLowerCase().includes(query)) {
+            results.push({ session, matches });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * 세션 이름 변경
+ * @returns 변경된 세션 (세션이 없으면 null)
+ */
+export async function renameSession(idOrName: string, name: string): Promise<Session | null> {
+    const session = await findSession(idOrName);
+    if (!session) {
+        return null;
+    }
+
+    session.name = name;
+    session.updatedAt = new Date();
+    await saveSession(session);
+    return session;
+}
+
+/**
+ * 검색어 주변 내용 (줄바꿈은 공백으로)
+ */
+function getSnippet(content: string, position: number, length: number, maxLength: number): string {
+    const start = Math.max(0, position - Math.floor((maxLength - length) / 2));
+    const end = Math.min(content.length, start + maxLength);
+    const snippet = content.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < content.length ? '…' : ''}`;
+}
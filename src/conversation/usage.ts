@@ -0,0 +1,195 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfigDir } from '../config/manager';
+import { ModelPrice, ProviderType, TokenUsage } from '../config/types';
+
+/**
+ * 사용량 기록 (요청 하나당 한 줄)
+ */
+export interface UsageRecord {
+    /** 기록 시각 (ISO 8601) */
+    timestamp: string;
+    provider: ProviderType;
+    /** 설정된 모델 이름 (없으면 서버 기본 모델) */
+    model?: string;
+    /** 프로젝트 루트 */
+    project: string;
+    sessionId?: string;
+    streaming: boolean;
+    tokens: TokenUsage;
+}
+
+/**
+ * 사용량 집계 기준
+ */
+export type UsageGroupBy = 'model' | 'project' | 'provider';
+
+/**
+ * 집계 결과
+ */
+export interface UsageSummary {
+    /** 집계 키 (모델 이름, 프로젝트 경로 등) */
+    key: string;
+    requests: number;
+    prompt: number;
+    completion: number;
+    total: number;
+    /** 가격이 설정된 요청의 비용 합계 (USD, 하나도 없으면 undefined) */
+    cost?: number;
+    /** 가격이 설정되지 않아 비용에서 빠진 요청 수 */
+    unpriced: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 사용량 기록 파일 경로 (~/.feelfreeai/usage.jsonl)
+ */
+export function getUsagePath(): string {
+    return path.join(getConfigDir(), 'usage.jsonl');
+}
+
+/**
+ * 사용량 기록 추가
+ */
+export async function appendUsage(record: UsageRecord, filePath = getUsagePath()): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+}
+
+/**
+ * 사용량 기록 읽기 (손상된 줄은 건너뜀)
+ * @param since 지정하면 이 시각 이후의 기록만 반환
+ */
+export async function readUsage(since?: Date, filePath = getUsagePath()): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            const record = JSON.parse(line) as UsageRecord;
+            if (!since || Date.parse(record.timestamp) >= since.getTime()) {
+                records.push(record);
+            }
+        } catch {
+            // 쓰는 도중 중단된 줄 등은 무시
+        }
+    }
+    return records;
+}
+
+/**
+ * --since 값 파싱 (7d, 24h, 2w 같은 기간 또는 2025-01-31 같은 날짜)
+ */
+export function parseSince(value: string, now = Date.now()): Date {
+    const match = /^(\d+)([hdw])$/.exec(value.trim());
+    if (match) {
+        return new Date(now - parseInt(match[1], 10) * DURATION_UNITS[match[2]]);
+    }
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+        throw new Error(`기간 형식이 올바르지 않습니다: ${value} (예: 24h, 7d, 2w, 2025-01-31)`);
+    }
+    return new Date(date);
+}
+
+/**
+ * 요청 비용 (USD, 가격이 설정되지 않았으면 undefined)
+ */
+export function calculateCost(
+    record: UsageRecord,
+    pricing: Record<string, ModelPrice> = {}
+): number | undefined {
+    const price = (record.model && pricing[record.model]) || pricing[record.provider];
+    if (!price) {
+        return undefined;
+    }
+    return (record.tokens.prompt * price.input + record.tokens.completion * price.output) / 1e6;
+}
+
+/**
+ * 기준별 사용량 집계 (토큰 사용량이 많은 순)
+ */
+export function summarizeUsage(
+    records: UsageRecord[],
+    groupBy: UsageGroupBy,
+    pricing?: Record<string, ModelPrice>
+): UsageSummary[] {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of records) {
+        const key = getGroupKey(record, groupBy);
+        groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+
+    return [...groups.entries()]
+        .map(([key, group]) => totalUsage(group, pricing, key))
+        .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * 전체 사용량 합계
+ */
+export function totalUsage(
+    records: UsageRecord[],
+    pricing?: Record<string, ModelPrice>,
+    key = '전체'
+): UsageSummary {
+    const summary: UsageSummary = {
+        key,
+        requests: 0,
+        prompt: 0,
+        completion: 0,
+        total: 0,
+        unpriced: 0,
+    };
+
+    for (const record of records) {
+        summary.requests++;
+        summary.prompt += record.tokens.prompt;
+        summary.completion += record.tokens.completion;
+        summary.total += record.tokens.total;
+
+        const cost = calculateCost(record, pricing);
+        if (cost === undefined) {
+            summary.unpriced++;
+        } else {
+            summary.cost = (summary.cost ?? 0) + cost;
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * 비용 표시 ($0.0123, 가격이 없으면 -)
+ */
+export function formatCost(cost: number | undefined): string {
+    return cost === undefined ? '-' : `$${cost.toFixed(4)}`;
+}
+
+function getGroupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+    switch (groupBy) {
+        case 'model':
+            return record.model ?? `${record.provider} (기본 모델)`;
+        case 'project':
+            return record.project;
+        case 'provider':
+            return record.provider;
+    }
+}
@@ -1,7 +1,4 @@
 import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
 
 /**
  * 명령어 실행 결과
@@ -14,6 +11,37 @@ export interface CommandResult {
     success: boolean;
 }
 
+/**
+ * 명령어 실행 옵션
+ */
+export interface CommandOptions {
+    /** 타임아웃 (ms) */
+    timeout?: number;
+    /** stdout/stderr 최대 크기 (바이트) */
+    maxBuffer?: number;
+    /** 작업 디렉토리 */
+    cwd?: string;
+    /** 중단 신호 */
+    signal?: AbortSignal;
+    /** 실시간 출력 콜백 */
+    onOutput?: (data: string, stream: 'stdout' | 'stderr') => void;
+}
+
+/**
+ * 기본 타임아웃 (30초)
+ */
+export const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+/**
+ * 기본 출력 크기 제한 (1MB)
+ */
+export const DEFAULT_COMMAND_MAX_BUFFER = 1024 * 1024;
+
+/**
+ * 기본 컨텍스트 첨부 길이 제한 (글자)
+ */
+export const DEFAULT_COMMAND_CONTEXT_LIMIT = 8000;
+
 /**
  * 위험한 명령어 패턴
  */
@@ -78,37 +106,76 @@ export function checkCommandSafety(command: string): {
  */
 export async function executeCommand(
     command: string,
-    timeout: number = 30000
+    options: CommandOptions = {}
 ): Promise<CommandResult> {
-    try {
-        const { stdout, stderr } = await execAsync(command, {
-            timeout,
-            maxBuffer: 1024 * 1024, // 1MB
-            shell: process.platform === 'win32' ? 'powershell.exe' : '/bin/bash',
-        });
-
-        return {
-            command,
-            stdout: stdout.trim(),
-            stderr: stderr.trim(),
-            exitCode: 0,
-            success: true,
-        };
-    } catch (error: any) {
-        return {
+    const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+    const maxBuffer = options.maxBuffer ?? DEFAULT_COMMAND_MAX_BUFFER;
+
+    return new Promise((resolve) => {
+        const child = exec(
             command,
-            stdout: error.stdout ? error.stdout.trim() : '',
-            stderr: error.stderr ? error.stderr.trim() : error.message,
-            exitCode: error.code || 1,
-            success: false,
-        };
-    }
+            {
+                timeout,
+                maxBuffer,
+                cwd: options.cwd,
+                signal: options.signal,
+                shell: process.platform === 'win32' ? 'powershell.exe' : '/bin/bash',
+            },
+            (error: any, stdout: string, stderr: string) => {
+                if (!error) {
+                    resolve({
+                        command,
+                        stdout: stdout.trim(),
+                        stderr: stderr.trim(),
+                        exitCode: 0,
+                        success: true,
+                    });
+                    return;
+                }
+
+                let errorText = stderr ? stderr.trim() : error.message;
+
+                if (options.signal?.aborted) {
+                    errorText = `${errorText}\n(사용자가 중단함)`.trim();
+                } else if (error.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+                    // 출력 초과로 종료해도 killed=true이므로 타임아웃보다 먼저 확인
+                    errorText = `${errorText}\n(출력이 ${maxBuffer}바이트를 넘어 종료됨)`.trim();
+                } else if (error.killed) {
+                    // 타임아웃으로 종료된 경우 (exec는 signal과 함께 killed=true를 설정)
+                    errorText = `${errorText}\n(${timeout}ms 후 시간 초과로 종료됨)`.trim();
+                }
+
+                resolve({
+                    command,
+                    stdout: stdout ? stdout.trim() : '',
+                    stderr: errorText,
+                    // 출력 초과 등에서는 code가 문자열이므로 숫자일 때만 사용
+                    exitCode: typeof error.code === 'number' ? error.code : 1,
+                    success: false,
+                });
+            }
+        );
+
+        // exec는 결과를 버퍼링하면서도 스트림을 노출하므로 실시간 출력 가능
+        if (options.onOutput) {
+            const onOutput = options.onOutput;
+            child.stdout?.on('data', (data: Buffer | string) => onOutput(data.toString(), 'stdout'));
+            child.stderr?.on('data', (data: Buffer | string) => onOutput(data.toString(), 'stderr'));
+        }
+    });
 }
 
 /**
  * 명령어 결과를 AI 컨텍스트 형식으로 포맷
+ * 출력이 길면 끝부분(에러가 나오는 곳)만 남기며, 에러 출력에 절반까지 배정합니다.
+ * @param maxLength stdout과 stderr를 합친 최대 길이 (글자)
  */
-export function formatCommandForContext(result: CommandResult): string {
+export function formatCommandForContext(
+    result: CommandResult,
+    maxLength: number = DEFAULT_COMMAND_CONTEXT_LIMIT
+): string {
+    const stderr = truncateHead(result.stderr, Math.floor(maxLength / 2));
+    const stdout = truncateHead(result.stdout, maxLength - stderr.length);
     const lines = [
         '```',
         `Command: ${result.command}`,
@@ -116,15 +183,15 @@ export function formatCommandForContext(result: CommandResult): string {
         '',
     ];
 
-    if (result.stdout) {
+    if (stdout) {
         lines.push('Output:');
-        lines.push(result.stdout);
+        lines.push(stdout);
         lines.push('');
     }
 
-    if (result.stderr) {
+    if (stderr) {
         lines.push('Errors:');
-        lines.push(result.stderr);
+        lines.push(stderr);
         lines.push('');
     }
 
@@ -143,7 +210,7 @@ export function formatCommandForContext(result: CommandResult): string {
  */
 export function summarizeCommandResult(result: CommandResult): string {
     const status = result.success ? '✅ 성공' : '❌ 실패';
-    const outputLines = result.stdout.split('\n').length;
+    const outputLines = result.stdout ? result.stdout.split('\n').length : 0;
     const errorLines = result.stderr.split('\n').filter((l) => l.trim()).length;
 
     let summary = `${status} (종료 코드: ${result.exitCode})`;
@@ -158,3 +225,13 @@ export function summarizeCommandResult(result: CommandResult): string {
 
     return summary;
 }
+
+/**
+ * 앞부분을 잘라 끝부분만 남기기
+ */
+function truncateHead(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+        return text;
+    }
+    return `(앞부분 ${text.length - maxLength}자 생략)\n${text.slice(text.length - maxLength)}`;
+}
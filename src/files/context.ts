@@ -17,11 +17,6 @@ export interface ContextFile {
  */
 export class ContextManager {
     private files: Map<string, ContextFile> = new Map();
-    private maxContextSize: number;
-
-    constructor(maxContextSize: number = 50000) {
-        this.maxContextSize = maxContextSize;
-    }
 
     /**
      * 파일 추가
@@ -72,27 +67,15 @@ export class ContextManager {
 
     /**
      * 컨텍스트 텍스트 생성
+     * 크기 제한은 하지 않으므로 토큰 예산은 conversation/budget에서 파일 단위로 맞춥니다.
+     * @param files 포함할 파일 (기본값: 전체)
      */
-    getContextText(): string {
-        const files = this.getFiles();
-
+    getContextText(files: ContextFile[] = this.getFiles()): string {
         if (files.length === 0) {
             return '';
         }
 
-        let context = '## 참조 파일\n\n';
-
-        for (const file of files) {
-            context += `### ${file.path}\n\`\`\`\n${file.content}\n\`\`\`\n\n`;
-        }
-
-        // 최대 크기 초과 시 자르기
-        if (context.length > this.maxContextSize) {
-            context = context.substring(0, this.maxContextSize);
-            context += '\n\n... (컨텍스트가 너무 커서 잘렸습니다)';
-        }
-
-        return context;
+        return `## 참조 파일\n\n${files.map((file) => formatContextFile(file)).join('')}`;
     }
 
     /**
@@ -109,3 +92,10 @@ export class ContextManager {
         return this.files.has(filePath);
     }
 }
+
+/**
+ * 파일 하나를 컨텍스트 텍스트로 변환
+ */
+export function formatContextFile(file: ContextFile): string {
+    return `### ${file.path}\n\`\`\`\n${file.content}\n\`\`\`\n\n`;
+}
@@ -14,14 +14,62 @@ export interface FileReadResult {
     size: number;
     /** 존재 여부 */
     exists: boolean;
+    /** MIME 타입 (이미지인 경우) */
+    mimeType?: string;
+    /** Base64 데이터 (이미지인 경우) */
+    data?: string;
 }
 
 /**
- * 파일 읽기
+ * 이미지로 읽을 확장자와 MIME 타입
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+};
+
+/**
+ * 첨부할 수 있는 최대 이미지 크기 (5MB, 대부분의 프로바이더 제한)
+ */
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 이미지 파일인지 확인
+ */
+export function isImageFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() in IMAGE_MIME_TYPES;
+}
+
+/**
+ * 파일 읽기 (이미지는 base64 데이터로 읽음)
  */
 export async function readFile(filePath: string): Promise<FileReadResult> {
     try {
         const absolutePath = path.resolve(filePath);
+
+        if (isImageFile(absolutePath)) {
+            const stats = await fs.stat(absolutePath);
+            if (stats.size > MAX_IMAGE_SIZE) {
+                throw new Error(
+                    `이미지 파일이 너무 큽니다: ${(stats.size / 1024 / 1024).toFixed(1)}MB ` +
+                    `(최대 ${MAX_IMAGE_SIZE / 1024 / 1024}MB)`
+                );
+            }
+            const buffer = await fs.readFile(absolutePath);
+
+            return {
+                path: absolutePath,
+                content: '[이미지 파일]',
+                size: stats.size,
+                exists: true,
+                mimeType: IMAGE_MIME_TYPES[path.extname(absolutePath).toLowerCase()],
+                data: buffer.toString('base64'),
+            };
+        }
+
         const content = await fs.readFile(absolutePath, 'utf-8');
         const stats = await fs.stat(absolutePath);
 
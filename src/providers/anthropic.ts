@@ -0,0 +1,488 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseProvider, ChatResponse, StreamChunk } from './base';
+import { SseDecoder, SseEvent } from './sse';
+import { Message, ProviderType, TokenUsage, Tool, ToolCall } from '../config/types';
+
+/**
+ * Anthropic API 버전 헤더
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Claude 모델의 기본 컨텍스트 크기
+ */
+const ANTHROPIC_DEFAULT_CONTEXT = 200000;
+
+/**
+ * Anthropic 콘텐츠 블록
+ */
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | {
+          type: 'image';
+          source: { type: 'base64'; media_type: string; data: string };
+      }
+    | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+/**
+ * Anthropic 메시지
+ */
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic /v1/messages 요청
+ */
+interface AnthropicRequest {
+    model: string;
+    max_tokens: number;
+    system?: string;
+    messages: AnthropicMessage[];
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    stream?: boolean;
+    tools?: { name: string; description: string; input_schema: Tool['parameters'] }[];
+}
+
+/**
+ * Anthropic 토큰 사용량
+ */
+interface AnthropicUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+}
+
+/**
+ * Anthropic /v1/messages 응답
+ */
+interface AnthropicResponse {
+    content: AnthropicContentBlock[];
+    usage?: AnthropicUsage;
+}
+
+/**
+ * Anthropic 스트리밍 이벤트 (필요한 필드만)
+ */
+interface AnthropicStreamEvent {
+    type: string;
+    index?: number;
+    message?: { usage?: AnthropicUsage };
+    content_block?: AnthropicContentBlock;
+    delta?: { type?: string; text?: string; partial_json?: string };
+    usage?: AnthropicUsage;
+    error?: { type: string; message: string };
+}
+
+/**
+ * Anthropic 프로바이더 옵션
+ */
+export interface AnthropicOptions {
+    /** API 키 */
+    apiKey: string;
+    /** API 기본 URL */
+    endpoint?: string;
+    /** 모델 이름 */
+    model?: string;
+    /** 온도 */
+    temperature?: number;
+    /** Top-p (설정한 경우에만 전송) */
+    topP?: number;
+    /** Top-k (설정한 경우에만 전송) */
+    topK?: number;
+    /** 최대 토큰 */
+    maxTokens?: number;
+    /** 컨텍스트 윈도우 크기 (토큰) */
+    contextWindow?: number;
+    /** 타임아웃 (ms) */
+    timeout?: number;
+}
+
+/**
+ * Anthropic 프로바이더 (Messages API)
+ */
+export class AnthropicProvider extends BaseProvider {
+    readonly name = 'Anthropic';
+    readonly type: ProviderType = 'anthropic';
+    private client: AxiosInstance;
+    private options: AnthropicOptions &
+        Required<Pick<AnthropicOptions, 'model' | 'temperature' | 'maxTokens' | 'contextWindow'>>;
+
+    constructor(options: AnthropicOptions) {
+        super();
+
+        if (!options.apiKey) {
+            throw new Error('Anthropic API 키가 필요합니다.');
+        }
+
+        this.options = {
+            ...options,
+            model: options.model ?? 'claude-3-5-sonnet-latest',
+            temperature: options.temperature ?? 0.7,
+            maxTokens: options.maxTokens ?? 4096,
+            contextWindow: options.contextWindow ?? ANTHROPIC_DEFAULT_CONTEXT,
+        };
+
+        this.client = axios.create({
+            baseURL: options.endpoint ?? 'https://api.anthropic.com',
+            timeout: options.timeout ?? 120000,
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': options.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+            },
+        });
+    }
+
+    /**
+     * 채팅 완료
+     */
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, systemPrompt, tools, false);
+            const response = await this.withRetry(
+                () => this.client.post<AnthropicResponse>('/v1/messages', request, { signal }),
+                '채팅 요청 실패',
+                signal
+            );
+            const data = response.data;
+
+            const text = data.content
+                .map((block) => (block.type === 'text' ? block.text : ''))
+                .join('');
+            const toolCalls = this.parseToolUse(data.content);
+
+            return {
+                text,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                tokensUsed: this.parseUsage(data.usage),
+            };
+        } catch (error) {
+            this.handleError(error, '채팅 요청 실패');
+        }
+    }
+
+    /**
+     * 채팅 스트리밍 (SSE)
+     */
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, systemPrompt, tools, true);
+
+            const response = await this.withRetry(
+                () => this.client.post('/v1/messages', request, { responseType: 'stream', signal }),
+                '스트리밍 요청 실패',
+                signal
+            );
+
+            let fullText = '';
+            const usage: AnthropicUsage = {};
+            const decoder = new SseDecoder();
+            // tool_use 블록은 index별로 누적 (입력 JSON은 조각으로 도착)
+            const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+
+            return new Promise((resolve, reject) => {
+                let settled = false;
+                const finish = () => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    signal?.removeEventListener('abort', abort);
+                    onChunk({ text: '', done: true });
+
+                    const toolCalls: ToolCall[] = Array.from(toolBlocks.values()).map((block) => ({
+                        id: block.id,
+                        name: block.name,
+                        arguments: this.parseToolArguments(block.json),
+                    }));
+
+                    resolve({
+                        text: fullText,
+                        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                        tokensUsed: this.parseUsage(usage),
+                    });
+                };
+                const fail = (error: Error) => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    signal?.removeEventListener('abort', abort);
+                    response.data.destroy();
+                    reject(this.toProviderError(error, '스트리밍 응답 오류'));
+                };
+                // 중단 시 소켓을 닫고 그때까지 받은 텍스트로 응답
+                const abort = () => {
+                    response.data.destroy();
+                    finish();
+                };
+
+                const handleEvent = (sse: SseEvent) => {
+                    if (settled) {
+                        return;
+                    }
+
+                    let event: AnthropicStreamEvent;
+                    try {
+                        event = JSON.parse(sse.data);
+                    } catch {
+                        if (sse.event === 'error') {
+                            fail(new Error(sse.data));
+                        }
+                        // 그 외 JSON이 아닌 데이터는 무시
+                        return;
+                    }
+
+                    switch (event.type) {
+                        case 'message_start':
+                            Object.assign(usage, event.message?.usage);
+                            break;
+                        case 'content_block_start':
+                            if (event.content_block?.type === 'tool_use') {
+                                toolBlocks.set(event.index ?? 0, {
+                                    id: event.content_block.id,
+                                    name: event.content_block.name,
+                                    json: '',
+                                });
+                            }
+                            break;
+                        case 'content_block_delta':
+                            if (event.delta?.type === 'text_delta' && event.delta.text) {
+                                fullText += event.delta.text;
+                                onChunk({ text: event.delta.text, done: false });
+                            } else if (event.delta?.type === 'input_json_delta') {
+                                const block = toolBlocks.get(event.index ?? 0);
+                                if (block) {
+                                    block.json += event.delta.partial_json ?? '';
+                                }
+                            }
+                            break;
+                        case 'message_delta':
+                            Object.assign(usage, event.usage);
+                            break;
+                        case 'message_stop':
+                            finish();
+                            break;
+                        case 'error':
+                            // 오류 종류(overloaded_error 등)를 메시지에 남겨 재시도 여부를 분류
+                            fail(
+                                new Error(
+                                    event.error
+                                        ? `${event.error.type}: ${event.error.message}`
+                                        : '스트리밍 오류'
+                                )
+                            );
+                            break;
+                    }
+                };
+
+                if (signal?.aborted) {
+                    abort();
+                    return;
+                }
+                signal?.addEventListener('abort', abort, { once: true });
+
+                response.data.on('data', (chunk: Buffer) => {
+                    // 이벤트 처리 중 오류(onChunk 등)는 삼키지 않고 응답 실패로 전달
+                    try {
+                        decoder.push(chunk).forEach(handleEvent);
+                    } catch (error) {
+                        fail(error instanceof Error ? error : new Error(String(error)));
+                    }
+                });
+
+                response.data.on('error', (error: Error) => {
+                    if (signal?.aborted) {
+                        return;
+                    }
+                    fail(error);
+                });
+
+                response.data.on('end', () => {
+                    decoder.end().forEach(handleEvent);
+                    finish();
+                });
+            });
+        } catch (error) {
+            this.handleError(error, '스트리밍 요청 실패');
+        }
+    }
+
+    /**
+     * 토큰 수 계산 (/v1/messages/count_tokens)
+     */
+    async countTokens(text: string): Promise<number> {
+        if (!text) {
+            return 0;
+        }
+
+        try {
+            const response = await this.client.post<{ input_tokens: number }>(
+                '/v1/messages/count_tokens',
+                {
+                    model: this.options.model,
+                    messages: [{ role: 'user', content: text }],
+                }
+            );
+            return response.data.input_tokens;
+        } catch {
+            // 에러 발생 시 대략적으로 계산
+            return Math.ceil(text.length / 3);
+        }
+    }
+
+    /**
+     * 컨텍스트 윈도우 크기
+     */
+    async getContextWindow(): Promise<number> {
+        return this.options.contextWindow;
+    }
+
+    /**
+     * API 연결 확인
+     */
+    async checkHealth(): Promise<boolean> {
+        try {
+            await this.client.get('/v1/models');
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * /v1/messages 요청 본문 생성
+     */
+    private buildRequest(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        tools: Tool[] | undefined,
+        stream: boolean
+    ): AnthropicRequest {
+        const request: AnthropicRequest = {
+            model: this.options.model,
+            max_tokens: this.options.maxTokens,
+            messages: this.formatMessages(messages),
+            temperature: this.options.temperature,
+            stream,
+        };
+
+        // 시스템 프롬프트는 메시지가 아닌 별도 필드로 전달
+        if (systemPrompt) {
+            request.system = systemPrompt;
+        }
+        if (this.options.topP !== undefined) {
+            request.top_p = this.options.topP;
+        }
+        if (this.options.topK !== undefined) {
+            request.top_k = this.options.topK;
+        }
+
+        if (tools && tools.length > 0) {
+            request.tools = tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+            }));
+        }
+
+        return request;
+    }
+
+    /**
+     * 메시지를 Anthropic 형식으로 변환
+     * 도구 결과는 user 역할의 tool_result 블록이 되며, 같은 역할이 연속되면 하나로 합칩니다.
+     */
+    private formatMessages(messages: Message[]): AnthropicMessage[] {
+        const formatted: AnthropicMessage[] = [];
+
+        for (const msg of messages) {
+            // 시스템 메시지는 system 필드로 전달되므로 건너뛰기
+            if (msg.role === 'system') {
+                continue;
+            }
+
+            const role = msg.role === 'assistant' ? 'assistant' : 'user';
+            const blocks: AnthropicContentBlock[] = [];
+
+            if (msg.role === 'function') {
+                blocks.push({
+                    type: 'tool_result',
+                    tool_use_id: msg.toolCallId ?? '',
+                    content: msg.content,
+                });
+            } else {
+                for (const image of msg.images ?? []) {
+                    blocks.push({
+                        type: 'image',
+                        source: { type: 'base64', media_type: image.mimeType, data: image.data },
+                    });
+                }
+                if (msg.content) {
+                    blocks.push({ type: 'text', text: msg.content });
+                }
+                for (const call of msg.toolCalls ?? []) {
+                    blocks.push({
+                        type: 'tool_use',
+                        id: call.id ?? this.generateToolCallId(),
+                        name: call.name,
+                        input: call.arguments,
+                    });
+                }
+            }
+
+            if (blocks.length === 0) {
+                continue;
+            }
+
+            const last = formatted[formatted.length - 1];
+            if (last?.role === role) {
+                last.content.push(...blocks);
+            } else {
+                formatted.push({ role, content: blocks });
+            }
+        }
+
+        return formatted;
+    }
+
+    /**
+     * tool_use 블록을 공통 도구 호출 형식으로 변환
+     */
+    private parseToolUse(blocks: AnthropicContentBlock[]): ToolCall[] {
+        const calls: ToolCall[] = [];
+        for (const block of blocks) {
+            if (block.type === 'tool_use') {
+                calls.push({ id: block.id, name: block.name, arguments: block.input ?? {} });
+            }
+        }
+        return calls;
+    }
+
+    /**
+     * 토큰 사용량 변환
+     */
+    private parseUsage(usage?: AnthropicUsage): TokenUsage | undefined {
+        if (!usage || (usage.input_tokens === undefined && usage.output_tokens === undefined)) {
+            return undefined;
+        }
+        const prompt = usage.input_tokens ?? 0;
+        const completion = usage.output_tokens ?? 0;
+        return { prompt, completion, total: prompt + completion };
+    }
+}
@@ -1,4 +1,5 @@
-import { Message } from '../config/types';
+import { Message, ProviderType, TokenUsage, Tool, ToolCall } from '../config/types';
+import { classifyError, ProviderError, RateLimitError, readErrorBody } from './errors';
 
 /**
  * 스트리밍 청크
@@ -8,22 +9,94 @@ export interface StreamChunk {
     text: string;
     /** 완료 여부 */
     done: boolean;
+    /** 청크 종류 (기본: text) */
+    kind?: StreamChunkKind;
 }
 
+/**
+ * 스트리밍 청크 종류 (reasoning은 <think> 블록, reasoning_content, Gemini thought 등 모델의 추론 과정)
+ */
+export type StreamChunkKind = 'text' | 'reasoning';
+
 /**
  * 채팅 응답
  */
 export interface ChatResponse {
-    /** 응답 텍스트 */
+    /** 응답 텍스트 (추론 과정 제외) */
     text: string;
+    /** 모델의 추론 과정 (있는 경우) */
+    reasoning?: string;
     /** 사용된 토큰 수 (있는 경우) */
-    tokensUsed?: {
-        prompt: number;
-        completion: number;
-        total: number;
-    };
+    tokensUsed?: TokenUsage;
+    /** 모델이 요청한 도구 호출 (있는 경우) */
+    toolCalls?: ToolCall[];
+    /** 생성된 토큰별 로그 확률 (nProbs를 설정한 경우) */
+    logprobs?: TokenLogprob[];
 }
 
+/**
+ * 생성된 토큰의 로그 확률
+ */
+export interface TokenLogprob {
+    token: string;
+    logprob: number;
+    /** 이 위치의 상위 후보 토큰 */
+    topLogprobs?: { token: string; logprob: number }[];
+}
+
+/**
+ * 서버/모델 정보 (알 수 없는 항목은 비워 둠)
+ */
+export interface ProviderInfo {
+    /** 사용 중인 모델 이름 */
+    model?: string;
+    /** 컨텍스트 윈도우 크기 (토큰) */
+    contextWindow?: number;
+    /** 채팅 템플릿 */
+    chatTemplate?: string;
+    /** 이미지 입력 지원 여부 */
+    vision?: boolean;
+    /** 서버에서 사용 가능한 모델 목록 */
+    models?: string[];
+}
+
+/**
+ * 재시도 정책
+ */
+export interface RetryPolicy {
+    /** 최대 재시도 횟수 (첫 시도 제외) */
+    maxRetries: number;
+    /** 첫 재시도 대기 시간 (ms, 이후 두 배씩 증가) */
+    baseDelay: number;
+    /** 최대 대기 시간 (ms) */
+    maxDelay: number;
+    /** 이보다 긴 Retry-After는 기다리지 않고 바로 실패 (ms) */
+    maxRetryAfter: number;
+}
+
+/**
+ * 재시도 대기 알림
+ * @param error 재시도할 에러
+ * @param delay 재시도까지 대기 시간 (ms)
+ * @param attempt 재시도 차례 (1부터)
+ */
+export type RetryListener = (
+    provider: BaseProvider,
+    error: ProviderError,
+    delay: number,
+    attempt: number
+) => void;
+
+/**
+ * 기본 재시도 정책
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    baseDelay: 500,
+    maxDelay: 8000,
+    maxRetryAfter: 60000,
+};
+
 /**
  * 프로바이더 기본 인터페이스
  */
@@ -33,25 +106,51 @@ export abstract class BaseProvider {
      */
     abstract readonly name: string;
 
+    /**
+     * 설정의 프로바이더 타입 (사용량 기록 등에서 응답한 프로바이더를 구분)
+     */
+    readonly type?: ProviderType;
+
+    /**
+     * 재시도 정책
+     */
+    protected retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+    /**
+     * 재시도를 기다리기 전에 호출 (UI에 대기 중임을 표시)
+     */
+    onRetry?: RetryListener;
+
     /**
      * 채팅 완료 (비스트리밍)
      * @param messages 메시지 목록
      * @param systemPrompt 시스템 프롬프트
+     * @param tools 모델에 노출할 도구 목록
+     * @param signal 중단 신호 (중단 시 요청을 취소)
      * @returns 채팅 응답
      */
-    abstract chat(messages: Message[], systemPrompt?: string): Promise<ChatResponse>;
+    abstract chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse>;
 
     /**
      * 채팅 스트리밍
      * @param messages 메시지 목록
      * @param systemPrompt 시스템 프롬프트
      * @param onChunk 청크 콜백
-     * @returns 최종 응답
+     * @param tools 모델에 노출할 도구 목록
+     * @param signal 중단 신호 (중단 시 그때까지 받은 텍스트로 응답)
+     * @returns 최종 응답 (도구 호출은 스트림이 끝난 뒤 toolCalls로 반환)
      */
     abstract stream(
         messages: Message[],
         systemPrompt: string | undefined,
-        onChunk: (chunk: StreamChunk) => void
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
     ): Promise<ChatResponse>;
 
     /**
@@ -67,6 +166,19 @@ export abstract class BaseProvider {
      */
     abstract checkHealth(): Promise<boolean>;
 
+    /**
+     * 컨텍스트 윈도우 크기
+     * @returns 모델이 한 번에 처리할 수 있는 토큰 수
+     */
+    abstract getContextWindow(): Promise<number>;
+
+    /**
+     * 서버/모델 정보 조회 (조회할 수 없는 프로바이더는 빈 객체)
+     */
+    async getInfo(): Promise<ProviderInfo> {
+        return {};
+    }
+
     /**
      * 메시지를 텍스트로 변환 (로깅용)
      */
@@ -74,11 +186,109 @@ export abstract class BaseProvider {
         return messages.map((m) => `${m.role}: ${m.content}`).join('\n');
     }
 
+    /**
+     * 도구 호출 ID 생성 (프로바이더가 ID를 주지 않는 경우)
+     */
+    protected generateToolCallId(): string {
+        return `call_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+    }
+
+    /**
+     * 도구 인자 파싱 (JSON 문자열 또는 객체)
+     */
+    protected parseToolArguments(raw: unknown): Record<string, unknown> {
+        if (!raw) {
+            return {};
+        }
+        if (typeof raw === 'object') {
+            return raw as Record<string, unknown>;
+        }
+        try {
+            const parsed = JSON.parse(String(raw));
+            return parsed && typeof parsed === 'object' ? parsed : {};
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * 재시도 정책을 적용하여 요청 실행
+     * 일시적 오류(요청 한도, 네트워크, 서버 오류)만 재시도하고, 인증/컨텍스트 길이 오류는 바로 실패합니다.
+     * 스트리밍은 출력이 중복되지 않도록 연결 단계에만 적용합니다.
+     */
+    protected async withRetry<T>(
+        operation: () => Promise<T>,
+        context: string,
+        signal?: AbortSignal
+    ): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await operation();
+            } catch (error) {
+                await readErrorBody(error);
+                const classified = this.toProviderError(error, context);
+                const delay = this.getRetryDelay(classified, attempt);
+                if (delay === undefined || signal?.aborted) {
+                    throw classified;
+                }
+                this.onRetry?.(this, classified, delay, attempt + 1);
+                await this.sleep(delay, signal);
+                // 대기 중 중단되면 재시도하지 않음
+                if (signal?.aborted) {
+                    throw classified;
+                }
+            }
+        }
+    }
+
+    /**
+     * 재시도 대기 시간 (재시도하지 않으면 undefined)
+     * Retry-After가 있으면 그만큼 기다리고, 없으면 지터를 섞은 지수 백오프를 사용합니다.
+     */
+    protected getRetryDelay(error: ProviderError, attempt: number): number | undefined {
+        const policy = this.retryPolicy;
+        if (!error.retryable || attempt >= policy.maxRetries) {
+            return undefined;
+        }
+
+        if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+            return error.retryAfter <= policy.maxRetryAfter ? error.retryAfter : undefined;
+        }
+
+        const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+        return Math.round(delay / 2 + (Math.random() * delay) / 2);
+    }
+
+    /**
+     * 대기 (중단 신호가 오면 바로 끝남)
+     */
+    protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve) => {
+            if (signal?.aborted) {
+                resolve();
+                return;
+            }
+            const done = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            };
+            const timer = setTimeout(done, ms);
+            signal?.addEventListener('abort', done, { once: true });
+        });
+    }
+
+    /**
+     * 에러를 프로바이더 에러 타입으로 변환
+     */
+    protected toProviderError(error: unknown, context: string): ProviderError {
+        return classifyError(error, `[${this.name}] ${context}`);
+    }
+
     /**
      * 에러 처리
      */
     protected handleError(error: unknown, context: string): never {
-        const message = error instanceof Error ? error.message : String(error);
-        throw new Error(`[${this.name}] ${context}: ${message}`);
+        throw this.toProviderError(error, context);
     }
 }
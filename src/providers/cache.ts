@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { BaseProvider, ChatResponse, ProviderInfo, StreamChunk } from './base';
+import { getConfigDir } from '../config/manager';
+import { Message, ProviderConfig, Tool } from '../config/types';
+
+/**
+ * 기본 캐시 유효 시간 (24시간)
+ */
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * 기본 최대 캐시 크기 (50MB)
+ */
+export const DEFAULT_CACHE_MAX_SIZE = 50 * 1024 * 1024;
+
+/**
+ * 응답 캐시 옵션
+ */
+export interface ResponseCacheOptions {
+    /** 캐시 디렉토리 (기본: ~/.feelfreeai/cache) */
+    dir?: string;
+    /** 유효 시간 (ms) */
+    ttl?: number;
+    /** 최대 크기 (바이트, 넘으면 오래된 항목부터 삭제) */
+    maxSize?: number;
+    /** 현재 시각 (테스트용) */
+    now?: () => number;
+}
+
+/**
+ * 캐시 통계
+ */
+export interface CacheStats {
+    dir: string;
+    entries: number;
+    /** 전체 크기 (바이트) */
+    size: number;
+    oldest?: Date;
+    newest?: Date;
+}
+
+/**
+ * 캐시 파일 항목
+ */
+interface CacheFile {
+    name: string;
+    size: number;
+    /** 저장 시각 (파일 수정 시각으로 기록) */
+    createdAt: number;
+}
+
+/**
+ * 캐시 디렉토리 경로
+ */
+export function getCacheDir(): string {
+    return path.join(getConfigDir(), 'cache');
+}
+
+/**
+ * 디스크 응답 캐시 (키마다 JSON 파일 하나, TTL과 전체 크기로 정리)
+ */
+export class ResponseCache {
+    readonly dir: string;
+    private ttl: number;
+    private maxSize: number;
+    private now: () => number;
+
+    constructor(options: ResponseCacheOptions = {}) {
+        this.dir = options.dir ?? getCacheDir();
+        this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+        this.maxSize = options.maxSize ?? DEFAULT_CACHE_MAX_SIZE;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 캐시된 응답 (없거나 만료되면 null)
+     */
+    async get(key: string): Promise<ChatResponse | null> {
+        const filePath = this.pathFor(key);
+        try {
+            const stat = await fs.stat(filePath);
+            if (this.isExpired(stat.mtimeMs)) {
+                await fs.rm(filePath, { force: true });
+                return null;
+            }
+            return JSON.parse(await fs.readFile(filePath, 'utf-8')) as ChatResponse;
+        } catch {
+            // 없거나 손상된 항목은 캐시 미스
+            return null;
+        }
+    }
+
+    /**
+     * 응답 저장 후 만료되었거나 크기를 넘는 항목 정리
+     */
+    async set(key: string, response: ChatResponse): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        const filePath = this.pathFor(key);
+        await fs.writeFile(filePath, JSON.stringify(response), 'utf-8');
+
+        // 저장 시각을 수정 시각으로 기록 (만료와 정리 순서 기준)
+        const createdAt = new Date(this.now());
+        await fs.utimes(filePath, createdAt, createdAt);
+        await this.evict();
+    }
+
+    /**
+     * 모든 항목 삭제
+     * @returns 삭제한 항목 수
+     */
+    async clear(): Promise<number> {
+        const files = await this.list();
+        await Promise.all(
+            files.map((file) => fs.rm(path.join(this.dir, file.name), { force: true }))
+        );
+        return files.length;
+    }
+
+    /**
+     * 캐시 통계
+     */
+    async stats(): Promise<CacheStats> {
+        const files = await this.list();
+        const times = files.map((file) => file.createdAt);
+        return {
+            dir: this.dir,
+            entries: files.length,
+            size: files.reduce((sum, file) => sum + file.size, 0),
+            oldest: files.length > 0 ? new Date(Math.min(...times)) : undefined,
+            newest: files.length > 0 ? new Date(Math.max(...times)) : undefined,
+        };
+    }
+
+    /**
+     * 만료된 항목을 지우고, 최대 크기를 넘으면 오래된 항목부터 삭제
+     */
+    private async evict(): Promise<void> {
+        const files = await this.list();
+        const live: CacheFile[] = [];
+
+        for (const file of files) {
+            if (this.isExpired(file.createdAt)) {
+                await fs.rm(path.join(this.dir, file.name), { force: true });
+            } else {
+                live.push(file);
+            }
+        }
+
+        let total = live.reduce((sum, file) => sum + file.size, 0);
+        live.sort((a, b) => a.createdAt - b.createdAt);
+        for (const file of live) {
+            if (total <= this.maxSize) {
+                break;
+            }
+            await fs.rm(path.join(this.dir, file.name), { force: true });
+            total -= file.size;
+        }
+    }
+
+    /**
+     * 캐시 파일 목록
+     */
+    private async list(): Promise<CacheFile[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.dir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const files = await Promise.all(
+            names
+                .filter((name) => name.endsWith('.json'))
+                .map(async (name): Promise<CacheFile> => {
+                    const stat = await fs.stat(path.join(this.dir, name));
+                    return { name, size: stat.size, createdAt: stat.mtimeMs };
+                })
+        );
+        return files;
+    }
+
+    private isExpired(createdAt: number): boolean {
+        return this.now() - createdAt > this.ttl;
+    }
+
+    private pathFor(key: string): string {
+        return path.join(this.dir, `${key}.json`);
+    }
+}
+
+/**
+ * 응답 캐시 프로바이더
+ *
+ * 같은 프로바이더 설정(모델, 샘플링 파라미터 등), 시스템 프롬프트, 메시지, 도구로 한 요청은
+ * 프로바이더를 호출하지 않고 저장된 응답을 돌려줍니다. 중단된 스트리밍 응답은 저장하지 않습니다.
+ */
+export class CachedProvider extends BaseProvider {
+    /**
+     * @param settings 캐시 키에 포함할 프로바이더 설정 (API 키와 헤더는 제외)
+     */
+    constructor(
+        private inner: BaseProvider,
+        private cache: ResponseCache,
+        private settings: Partial<ProviderConfig>
+    ) {
+        super();
+    }
+
+    get name(): string {
+        return this.inner.name;
+    }
+
+    /**
+     * 채팅 완료 (캐시 우선)
+     */
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        const key = this.getKey(messages, systemPrompt, tools);
+        const cached = await this.cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const response = await this.inner.chat(messages, systemPrompt, tools, signal);
+        await this.store(key, response);
+        return response;
+    }
+
+    /**
+     * 채팅 스트리밍 (캐시된 응답은 한 번에 재생)
+     */
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        const key = this.getKey(messages, systemPrompt, tools);
+        const cached = await this.cache.get(key);
+        if (cached) {
+            if (cached.reasoning) {
+                onChunk({ text: cached.reasoning, done: false, kind: 'reasoning' });
+            }
+            if (cached.text) {
+                onChunk({ text: cached.text, done: false });
+            }
+            onChunk({ text: '', done: true });
+            return cached;
+        }
+
+        const response = await this.inner.stream(messages, systemPrompt, onChunk, tools, signal);
+        if (!signal?.aborted) {
+            await this.store(key, response);
+        }
+        return response;
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return this.inner.countTokens(text);
+    }
+
+    async getContextWindow(): Promise<number> {
+        return this.inner.getContextWindow();
+    }
+
+    async getInfo(): Promise<ProviderInfo> {
+        return this.inner.getInfo();
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return this.inner.checkHealth();
+    }
+
+    /**
+     * 캐시 키 (요청을 결정하는 값의 SHA-256)
+     */
+    private getKey(messages: Message[], systemPrompt?: string, tools?: Tool[]): string {
+        const request = {
+            settings: { ...this.settings, apiKey: undefined, headers: undefined },
+            systemPrompt: systemPrompt ?? '',
+            // 타임스탬프와 사용량은 응답 내용에 영향을 주지 않음
+            messages: messages.map((msg) => ({
+                role: msg.role,
+                content: msg.content,
+                images: msg.images,
+                toolCalls: msg.toolCalls,
+                toolCallId: msg.toolCallId,
+                name: msg.name,
+            })),
+            tools: tools?.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            })),
+        };
+        return crypto.createHash('sha256').update(stableStringify(request)).digest('hex');
+    }
+
+    /**
+     * 응답 저장 (캐시 실패는 요청 결과에 영향을 주지 않음)
+     */
+    private async store(key: string, response: ChatResponse): Promise<void> {
+        try {
+            await this.cache.set(key, response);
+        } catch {
+            // 디스크 오류 등은 무시
+        }
+    }
+}
+
+/**
+ * 키 순서와 무관한 JSON 문자열 (같은 설정이면 같은 캐시 키)
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,314 @@
+import axios from 'axios';
+
+/**
+ * 프로바이더 요청 에러 (분류되지 않은 실패)
+ */
+export class ProviderError extends Error {
+    /** 재시도로 해결될 수 있는지 */
+    readonly retryable: boolean = false;
+
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+/**
+ * 요청 한도 초과 (429, 할당량 소진)
+ */
+export class RateLimitError extends ProviderError {
+    readonly retryable = true;
+
+    /**
+     * @param retryAfter 서버가 알려준 재시도 대기 시간 (ms)
+     */
+    constructor(message: string, public readonly retryAfter?: number, status?: number) {
+        super(message, status);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * 인증 실패 (잘못되었거나 만료된 API 키, 권한 없음)
+ */
+export class AuthError extends ProviderError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * 입력이 모델의 컨텍스트 길이를 넘음
+ */
+export class ContextLengthError extends ProviderError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'ContextLengthError';
+    }
+}
+
+/**
+ * 네트워크 실패 (연결 거부, 타임아웃, DNS 실패 등 응답을 받지 못함)
+ */
+export class NetworkError extends ProviderError {
+    readonly retryable = true;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * 서버 오류 (5xx, 과부하)
+ */
+export class ServerError extends ProviderError {
+    readonly retryable = true;
+
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'ServerError';
+    }
+}
+
+/**
+ * 모델이나 서버가 지원하지 않는 기능 (예: 텍스트 전용 모델에 이미지 전송)
+ */
+export class UnsupportedFeatureError extends ProviderError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsupportedFeatureError';
+    }
+}
+
+/**
+ * 구조화 출력이 JSON이 아니거나 스키마와 맞지 않음
+ */
+export class StructuredOutputError extends ProviderError {
+    /**
+     * @param violations 스키마 위반 내용 (JSON 파싱 실패면 비어 있음)
+     * @param output 모델이 생성한 원본 텍스트
+     */
+    constructor(
+        message: string,
+        public readonly violations: string[] = [],
+        public readonly output?: string
+    ) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+const CONTEXT_LENGTH_PATTERN = new RegExp(
+    [
+        'context (length|size|window)',
+        'exceed_context_size',
+        'prompt is too long',
+        'too many tokens',
+        'exceeds the maximum number of tokens',
+    ].join('|'),
+    'i'
+);
+const AUTH_PATTERN = /api key|unauthorized|permission denied|authentication/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|quota|resource.?exhausted/i;
+const SERVER_PATTERN = /\b50[0-4]\b|overloaded|service unavailable|internal server error/i;
+const NETWORK_PATTERN = new RegExp(
+    [
+        'ECONNREFUSED|ECONNRESET|ECONNABORTED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|ERR_NETWORK',
+        'socket hang up',
+        'fetch failed',
+        'timeout',
+    ].join('|'),
+    'i'
+);
+
+/**
+ * 에러를 프로바이더 에러 타입으로 분류
+ * 이미 분류된 에러는 그대로 반환합니다.
+ * @param prefix 메시지 앞에 붙일 문맥 (예: "[Gemini] 채팅 요청 실패")
+ */
+export function classifyError(error: unknown, prefix?: string): ProviderError {
+    if (error instanceof ProviderError) {
+        return error;
+    }
+
+    const detail = describeError(error);
+    const message = prefix ? `${prefix}: ${detail}` : detail;
+    const status = getStatus(error);
+
+    // Gemini는 잘못된 API 키를 400으로 응답
+    const authMessage = (status === undefined || status === 400) && AUTH_PATTERN.test(detail);
+    if (status === 401 || status === 403 || authMessage) {
+        return new AuthError(message, status);
+    }
+    if (CONTEXT_LENGTH_PATTERN.test(detail)) {
+        return new ContextLengthError(message, status);
+    }
+    if (status === 429 || (status === undefined && RATE_LIMIT_PATTERN.test(detail))) {
+        return new RateLimitError(message, getRetryAfter(error), status);
+    }
+    if (status !== undefined && status >= 500) {
+        return new ServerError(message, status);
+    }
+    if (status !== undefined) {
+        return new ProviderError(message, status);
+    }
+
+    // 상태 코드가 없으면 (스트림 중 오류, 연결 실패 등) 메시지로 판단
+    if (SERVER_PATTERN.test(detail)) {
+        return new ServerError(message);
+    }
+    if (!axios.isCancel(error) && NETWORK_PATTERN.test(`${getCode(error)} ${detail}`)) {
+        return new NetworkError(message);
+    }
+    return new ProviderError(message);
+}
+
+/**
+ * 스트리밍 요청(responseType: 'stream')의 에러 응답 본문 읽기
+ * 스트리밍이 시작되기 전의 4xx/5xx 응답은 본문이 읽지 않은 스트림이라 서버 메시지가 빠지므로,
+ * 분류 전에 본문을 읽어 JSON(또는 문자열)으로 바꿔 둡니다.
+ */
+export async function readErrorBody(error: unknown, maxBytes = 64 * 1024): Promise<void> {
+    if (!axios.isAxiosError(error) || !error.response || !isReadableStream(error.response.data)) {
+        return;
+    }
+
+    const stream = error.response.data;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    try {
+        for await (const chunk of stream) {
+            const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+            chunks.push(buffer);
+            size += buffer.length;
+            if (size >= maxBytes) {
+                break;
+            }
+        }
+    } catch {
+        // 본문을 읽지 못해도 상태 코드로 분류
+    } finally {
+        stream.destroy();
+    }
+
+    const body = Buffer.concat(chunks).toString('utf-8').slice(0, maxBytes);
+    try {
+        error.response.data = JSON.parse(body);
+    } catch {
+        error.response.data = body;
+    }
+}
+
+/**
+ * 재시도할 만한 에러인지 확인
+ */
+export function isRetryableError(error: unknown): boolean {
+    return classifyError(error).retryable;
+}
+
+/**
+ * 에러 메시지 (axios 에러는 서버가 보낸 본문의 메시지를 포함)
+ */
+function describeError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (axios.isAxiosError(error)) {
+        const data: unknown = error.response?.data;
+        const body = typeof data === 'string' ? data : extractErrorMessage(data);
+        if (body) {
+            return `${message} (${body})`;
+        }
+    }
+
+    return message;
+}
+
+/**
+ * 응답 본문에서 에러 메시지 추출 ({ error: { message } }, { error: "..." }, { message })
+ */
+function extractErrorMessage(data: unknown): string | undefined {
+    if (!data || typeof data !== 'object') {
+        return undefined;
+    }
+    const body = data as { error?: unknown; message?: unknown };
+    if (typeof body.error === 'string') {
+        return body.error;
+    }
+    if (body.error && typeof body.error === 'object') {
+        const message = (body.error as { message?: unknown }).message;
+        return typeof message === 'string' ? message : undefined;
+    }
+    return typeof body.message === 'string' ? body.message : undefined;
+}
+
+function isReadableStream(
+    data: unknown
+): data is AsyncIterable<unknown> & { destroy(): void } {
+    return (
+        !!data &&
+        typeof data === 'object' &&
+        typeof (data as { destroy?: unknown }).destroy === 'function' &&
+        Symbol.asyncIterator in data
+    );
+}
+
+/**
+ * HTTP 상태 코드 (axios 응답 또는 SDK 에러의 status)
+ */
+function getStatus(error: unknown): number | undefined {
+    if (axios.isAxiosError(error)) {
+        return error.response?.status;
+    }
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * 에러 코드 (ECONNREFUSED 등)
+ */
+function getCode(error: unknown): string {
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' ? code : '';
+}
+
+/**
+ * 재시도 대기 시간 (ms)
+ * Retry-After 헤더(초 또는 HTTP 날짜)나 Gemini의 RetryInfo.retryDelay("30s")를 읽습니다.
+ */
+function getRetryAfter(error: unknown): number | undefined {
+    if (axios.isAxiosError(error)) {
+        return parseRetryAfter(error.response?.headers?.['retry-after']);
+    }
+
+    const details = (error as { errorDetails?: unknown } | null)?.errorDetails;
+    if (Array.isArray(details)) {
+        const retryInfo = details.find((detail) =>
+            String(detail?.['@type'] ?? '').endsWith('RetryInfo')
+        );
+        const match = /^(\d+(?:\.\d+)?)s$/.exec(String(retryInfo?.retryDelay ?? ''));
+        if (match) {
+            return Math.round(parseFloat(match[1]) * 1000);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Retry-After 헤더 값 파싱
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -1,8 +1,13 @@
-import { BaseProvider } from './base';
+import { BaseProvider, RetryListener } from './base';
 import { LlamaCppProvider, LlamaCppOptions } from './llamacpp';
 import { GeminiProvider, GeminiOptions } from './gemini';
+import { OpenAICompatibleProvider, OpenAICompatibleOptions } from './openai-compatible';
+import { OllamaProvider, OllamaOptions } from './ollama';
+import { AnthropicProvider, AnthropicOptions } from './anthropic';
+import { FallbackProvider, FallbackOptions } from './fallback';
 import { ProviderType, GlobalConfig } from '../config/types';
-import { loadConfig, getApiKeyFromEnv } from '../config/manager';
+import { getApiKeyFromEnv, PROVIDER_TYPES } from '../config/manager';
+import { loadRuntimeConfig } from '../config/runtime';
 
 /**
  * 프로바이더 생성 에러
@@ -14,22 +19,32 @@ export class ProviderCreationError extends Error {
     }
 }
 
+/**
+ * 폴백 체인 생성 옵션
+ */
+export interface CreateProviderOptions extends FallbackOptions {
+    /** 체인의 각 프로바이더가 재시도를 기다릴 때 호출 */
+    onRetry?: RetryListener;
+}
+
 /**
  * 프로바이더 팩토리
  */
 export class ProviderFactory {
     /**
      * 설정에서 프로바이더 생성
+     * config가 없으면 전역/프로젝트 설정과 환경 변수를 병합한 런타임 설정을 사용합니다.
      */
     static async createFromConfig(
         providerType?: ProviderType,
         config?: GlobalConfig
     ): Promise<BaseProvider> {
-        // 설정 로드
-        const globalConfig = config ?? (await loadConfig());
-        const type = providerType ?? globalConfig.defaultProvider;
+        if (config) {
+            return this.create(providerType ?? config.defaultProvider, config);
+        }
 
-        return this.create(type, globalConfig);
+        const runtime = await loadRuntimeConfig({ provider: providerType });
+        return this.create(runtime.providerType, runtime.config);
     }
 
     /**
@@ -41,11 +56,51 @@ export class ProviderFactory {
                 return this.createLlamaCpp(config);
             case 'gemini':
                 return this.createGemini(config);
+            case 'anthropic':
+                return this.createAnthropic(config);
+            case 'openai-compatible':
+                return this.createOpenAICompatible(config);
+            case 'ollama':
+                return this.createOllama(config);
             default:
                 throw new ProviderCreationError(`알 수 없는 프로바이더 타입: ${type}`);
         }
     }
 
+    /**
+     * 폴백 체인을 포함한 프로바이더 생성
+     * fallbackProviders가 없으면 기본 프로바이더를 그대로 반환합니다.
+     * 폴백 프로바이더는 생성에 실패하면(API 키 없음 등) 체인에서 제외합니다.
+     */
+    static createWithFallback(
+        type: ProviderType,
+        config: GlobalConfig,
+        options?: CreateProviderOptions
+    ): BaseProvider {
+        const primary = this.create(type, config);
+        primary.onRetry = options?.onRetry;
+
+        const fallbacks: BaseProvider[] = [];
+        for (const fallbackType of config.fallbackProviders ?? []) {
+            if (fallbackType === type) {
+                continue;
+            }
+            try {
+                const fallback = this.create(fallbackType, config);
+                fallback.onRetry = options?.onRetry;
+                fallbacks.push(fallback);
+            } catch {
+                // 설정되지 않은 프로바이더는 건너뜀
+            }
+        }
+
+        if (fallbacks.length === 0) {
+            return primary;
+        }
+
+        return new FallbackProvider([primary, ...fallbacks], options);
+    }
+
     /**
      * llama.cpp 프로바이더 생성
      */
@@ -61,10 +116,21 @@ export class ProviderFactory {
 
         const options: LlamaCppOptions = {
             endpoint: providerConfig.endpoint,
+            model: providerConfig.model,
             temperature: providerConfig.temperature,
             topP: providerConfig.topP,
             topK: providerConfig.topK,
+            minP: providerConfig.minP,
+            repeatPenalty: providerConfig.repeatPenalty,
+            presencePenalty: providerConfig.presencePenalty,
+            frequencyPenalty: providerConfig.frequencyPenalty,
+            seed: providerConfig.seed,
+            stopSequences: providerConfig.stopSequences,
+            nProbs: providerConfig.nProbs,
             maxTokens: providerConfig.maxTokens,
+            contextWindow: providerConfig.contextWindow,
+            apiKey: providerConfig.apiKey,
+            headers: providerConfig.headers,
         };
 
         return new LlamaCppProvider(options);
@@ -94,11 +160,125 @@ export class ProviderFactory {
             topP: providerConfig.topP,
             topK: providerConfig.topK,
             maxTokens: providerConfig.maxTokens,
+            contextWindow: providerConfig.contextWindow,
+            presencePenalty: providerConfig.presencePenalty,
+            frequencyPenalty: providerConfig.frequencyPenalty,
+            seed: providerConfig.seed,
+            nProbs: providerConfig.nProbs,
+            stopSequences: providerConfig.stopSequences,
+            responseMimeType: providerConfig.responseMimeType,
+            safetySettings: providerConfig.safetySettings,
+            endpoint: providerConfig.endpoint,
         };
 
         return new GeminiProvider(options);
     }
 
+    /**
+     * Anthropic 프로바이더 생성
+     */
+    private static createAnthropic(config: GlobalConfig): AnthropicProvider {
+        const providerConfig = config.providers.anthropic;
+
+        const apiKey = providerConfig.apiKey ?? getApiKeyFromEnv('anthropic');
+
+        if (!apiKey) {
+            throw new ProviderCreationError(
+                'Anthropic API 키가 설정되지 않았습니다. ' +
+                '"feelfree login" 명령어를 실행하거나 ' +
+                'ANTHROPIC_API_KEY 환경 변수를 설정하세요.'
+            );
+        }
+
+        const options: AnthropicOptions = {
+            apiKey,
+            endpoint: providerConfig.endpoint,
+            model: providerConfig.model,
+            temperature: providerConfig.temperature,
+            topP: providerConfig.topP,
+            topK: providerConfig.topK,
+            maxTokens: providerConfig.maxTokens,
+            contextWindow: providerConfig.contextWindow,
+        };
+
+        return new AnthropicProvider(options);
+    }
+
+    /**
+     * OpenAI 호환 프로바이더 생성
+     */
+    private static createOpenAICompatible(config: GlobalConfig): OpenAICompatibleProvider {
+        const providerConfig = config.providers['openai-compatible'];
+
+        if (!providerConfig.endpoint) {
+            throw new ProviderCreationError(
+                'OpenAI 호환 서버의 기본 URL이 설정되지 않았습니다. ' +
+                '"feelfree login" 명령어로 설정하세요. (예: http://localhost:8000/v1)'
+            );
+        }
+
+        if (!providerConfig.model) {
+            throw new ProviderCreationError(
+                'OpenAI 호환 서버에서 사용할 모델 이름이 설정되지 않았습니다. ' +
+                '"feelfree login" 또는 --model 옵션으로 지정하세요.'
+            );
+        }
+
+        const options: OpenAICompatibleOptions = {
+            endpoint: providerConfig.endpoint,
+            model: providerConfig.model,
+            apiKey: providerConfig.apiKey ?? getApiKeyFromEnv('openai-compatible'),
+            headers: providerConfig.headers,
+            temperature: providerConfig.temperature,
+            topP: providerConfig.topP,
+            topK: providerConfig.topK,
+            minP: providerConfig.minP,
+            repeatPenalty: providerConfig.repeatPenalty,
+            presencePenalty: providerConfig.presencePenalty,
+            frequencyPenalty: providerConfig.frequencyPenalty,
+            seed: providerConfig.seed,
+            stopSequences: providerConfig.stopSequences,
+            nProbs: providerConfig.nProbs,
+            maxTokens: providerConfig.maxTokens,
+            contextWindow: providerConfig.contextWindow,
+        };
+
+        return new OpenAICompatibleProvider(options);
+    }
+
+    /**
+     * Ollama 프로바이더 생성
+     */
+    private static createOllama(config: GlobalConfig): OllamaProvider {
+        const providerConfig = config.providers.ollama;
+
+        if (!providerConfig.endpoint) {
+            throw new ProviderCreationError(
+                'Ollama 서버 엔드포인트가 설정되지 않았습니다. ' +
+                '기본값: http://localhost:11434'
+            );
+        }
+
+        if (!providerConfig.model) {
+            throw new ProviderCreationError(
+                'Ollama 모델이 설정되지 않았습니다. ' +
+                '"feelfree login" 또는 --model 옵션으로 지정하세요. (예: llama3.2)'
+            );
+        }
+
+        const options: OllamaOptions = {
+            endpoint: providerConfig.endpoint,
+            model: providerConfig.model,
+            temperature: providerConfig.temperature,
+            topP: providerConfig.topP,
+            topK: providerConfig.topK,
+            maxTokens: providerConfig.maxTokens,
+            contextWindow: providerConfig.contextWindow,
+        };
+
+        return new OllamaProvider(options);
+    }
+
     /**
      * 프로바이더 상태 확인
      */
@@ -115,6 +295,6 @@ export class ProviderFactory {
      * 사용 가능한 프로바이더 목록
      */
     static getAvailableProviders(): ProviderType[] {
-        return ['llamacpp', 'gemini'];
+        return [...PROVIDER_TYPES];
     }
 }
@@ -0,0 +1,304 @@
+import { BaseProvider, ChatResponse, ProviderInfo, StreamChunk } from './base';
+import { Message, Tool } from '../config/types';
+import { isRetryableError } from './errors';
+
+/**
+ * 서킷 브레이커 상태
+ * - closed: 정상 (요청 허용)
+ * - open: 연속 실패로 차단 (resetTimeout 동안 건너뜀)
+ * - half-open: 차단 시간이 지나 상태 확인 후 한 번 시도
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 서킷 브레이커 옵션
+ */
+export interface CircuitBreakerOptions {
+    /** 차단까지 허용할 연속 실패 횟수 */
+    failureThreshold?: number;
+    /** 차단 유지 시간 (ms) */
+    resetTimeout?: number;
+}
+
+/**
+ * 프로바이더별 서킷 브레이커 (죽은 엔드포인트를 매 턴마다 다시 시도하지 않도록)
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt?: number;
+    private failureThreshold: number;
+    private resetTimeout: number;
+
+    constructor(options: CircuitBreakerOptions = {}, private now: () => number = Date.now) {
+        this.failureThreshold = options.failureThreshold ?? 3;
+        this.resetTimeout = options.resetTimeout ?? 60000;
+    }
+
+    /**
+     * 현재 상태
+     */
+    get state(): CircuitState {
+        if (this.openedAt === undefined) {
+            return 'closed';
+        }
+        return this.now() - this.openedAt >= this.resetTimeout ? 'half-open' : 'open';
+    }
+
+    /**
+     * 성공 기록 (차단 해제)
+     */
+    recordSuccess(): void {
+        this.failures = 0;
+        this.openedAt = undefined;
+    }
+
+    /**
+     * 실패 기록 (half-open에서 실패하면 바로 다시 차단)
+     */
+    recordFailure(): void {
+        this.failures++;
+        if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+            this.openedAt = this.now();
+        }
+    }
+}
+
+/**
+ * 폴백 프로바이더 옵션
+ */
+export interface FallbackOptions {
+    /** 프로바이더당 추가 재시도 횟수 (각 프로바이더도 자체 재시도 정책을 가지므로 기본 0) */
+    retries?: number;
+    /** 첫 재시도 대기 시간 (ms, 이후 두 배씩 증가) */
+    baseDelay?: number;
+    /** 최대 대기 시간 (ms) */
+    maxDelay?: number;
+    /** 서킷 브레이커 옵션 */
+    circuitBreaker?: CircuitBreakerOptions;
+    /** 다음 프로바이더로 넘어갈 때 호출 */
+    onFailover?: (from: BaseProvider, to: BaseProvider, error: unknown) => void;
+    /** 대기 함수 (테스트용) */
+    sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * 모든 프로바이더가 실패했을 때의 에러
+ */
+export class AllProvidersFailedError extends Error {
+    constructor(public readonly errors: { provider: string; error: unknown }[]) {
+        super(
+            '모든 프로바이더가 실패했습니다: ' +
+            errors
+                .map(({ provider, error }) =>
+                    `${provider} (${error instanceof Error ? error.message : String(error)})`
+                )
+                .join(', ')
+        );
+        this.name = 'AllProvidersFailedError';
+    }
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 폴백 체인 프로바이더
+ *
+ * 순서대로 프로바이더를 시도하고, 일시적 오류(요청 한도, 네트워크, 서버)면 다음으로 넘어갑니다.
+ * 일시적이지 않은 오류(잘못된 요청 등)는 다른 프로바이더에서도 실패하므로 바로 전달합니다.
+ */
+export class FallbackProvider extends BaseProvider {
+    private breakers: CircuitBreaker[];
+    private options: Required<Omit<FallbackOptions, 'onFailover' | 'circuitBreaker'>> &
+        Pick<FallbackOptions, 'onFailover'>;
+    /** 마지막으로 응답한 프로바이더 */
+    private lastUsed?: BaseProvider;
+
+    constructor(private providers: BaseProvider[], options: FallbackOptions = {}) {
+        super();
+
+        if (providers.length === 0) {
+            throw new Error('폴백 체인에는 프로바이더가 하나 이상 필요합니다.');
+        }
+
+        this.breakers = providers.map(() => new CircuitBreaker(options.circuitBreaker));
+        this.options = {
+            retries: options.retries ?? 0,
+            baseDelay: options.baseDelay ?? 500,
+            maxDelay: options.maxDelay ?? 8000,
+            sleep: options.sleep ?? defaultSleep,
+            onFailover: options.onFailover,
+        };
+    }
+
+    /**
+     * 마지막으로 응답한 프로바이더 이름 (아직 없으면 첫 번째 프로바이더)
+     */
+    get name(): string {
+        return this.current.name;
+    }
+
+    /**
+     * 마지막으로 응답한 프로바이더
+     */
+    get current(): BaseProvider {
+        return this.lastUsed ?? this.providers[0];
+    }
+
+    /**
+     * 체인에 포함된 프로바이더
+     */
+    getProviders(): BaseProvider[] {
+        return [...this.providers];
+    }
+
+    /**
+     * 채팅 완료
+     */
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        return this.run(
+            (provider) => provider.chat(messages, systemPrompt, tools, signal),
+            () => !signal?.aborted
+        );
+    }
+
+    /**
+     * 채팅 스트리밍
+     * 이미 일부를 출력한 뒤 실패하면 중복 출력을 막기 위해 다른 프로바이더로 넘어가지 않습니다.
+     */
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        let started = false;
+        return this.run(
+            (provider) =>
+                provider.stream(
+                    messages,
+                    systemPrompt,
+                    (chunk) => {
+                        if (!chunk.done) {
+                            started = true;
+                        }
+                        onChunk(chunk);
+                    },
+                    tools,
+                    signal
+                ),
+            () => !started && !signal?.aborted
+        );
+    }
+
+    /**
+     * 토큰 수 계산 (현재 프로바이더 기준)
+     */
+    async countTokens(text: string): Promise<number> {
+        return this.current.countTokens(text);
+    }
+
+    /**
+     * 컨텍스트 윈도우 크기 (폴백될 수 있으므로 가장 작은 값)
+     * 서킷 브레이커가 차단 중인 프로바이더는 조회하지 않고, 조회에 실패한 프로바이더는 제외합니다.
+     */
+    async getContextWindow(): Promise<number> {
+        const available = this.providers.filter((_, i) => this.breakers[i].state !== 'open');
+        const results = await Promise.allSettled(available.map((p) => p.getContextWindow()));
+        const windows = results.flatMap((result) =>
+            result.status === 'fulfilled' ? [result.value] : []
+        );
+
+        // 모두 차단되었거나 실패하면 현재 프로바이더 기준 (실패하면 에러 전달)
+        if (windows.length === 0) {
+            return this.current.getContextWindow();
+        }
+        return Math.min(...windows);
+    }
+
+    /**
+     * 현재 프로바이더 정보
+     */
+    async getInfo(): Promise<ProviderInfo> {
+        return this.current.getInfo();
+    }
+
+    /**
+     * 하나라도 응답 가능하면 정상
+     */
+    async checkHealth(): Promise<boolean> {
+        const results = await Promise.all(this.providers.map((p) => p.checkHealth()));
+        return results.some(Boolean);
+    }
+
+    /**
+     * 프로바이더를 순서대로 시도
+     * @param canRetry 재시도/폴백이 가능한 상태인지 (스트리밍 출력 시작 여부 등)
+     */
+    private async run<T>(
+        request: (provider: BaseProvider) => Promise<T>,
+        canRetry: () => boolean = () => true
+    ): Promise<T> {
+        const errors: { provider: string; error: unknown }[] = [];
+        let previous: BaseProvider | undefined;
+
+        for (let i = 0; i < this.providers.length; i++) {
+            const provider = this.providers[i];
+            const breaker = this.breakers[i];
+
+            if (breaker.state === 'open') {
+                errors.push({ provider: provider.name, error: new Error('서킷 브레이커 차단 중') });
+                previous = provider;
+                continue;
+            }
+
+            // 차단 시간이 지난 프로바이더는 상태 확인을 통과해야 다시 사용
+            if (breaker.state === 'half-open' && !(await provider.checkHealth())) {
+                breaker.recordFailure();
+                errors.push({ provider: provider.name, error: new Error('상태 확인 실패') });
+                previous = provider;
+                continue;
+            }
+
+            if (previous) {
+                this.options.onFailover?.(previous, provider, errors[errors.length - 1]?.error);
+            }
+
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    const result = await request(provider);
+                    breaker.recordSuccess();
+                    this.lastUsed = provider;
+                    return result;
+                } catch (error) {
+                    if (!isRetryableError(error) || !canRetry()) {
+                        throw error;
+                    }
+                    if (attempt >= this.options.retries) {
+                        breaker.recordFailure();
+                        errors.push({ provider: provider.name, error });
+                        break;
+                    }
+                    await this.options.sleep(this.backoff(attempt));
+                }
+            }
+
+            previous = provider;
+        }
+
+        throw new AllProvidersFailedError(errors);
+    }
+
+    /**
+     * 지수 백오프 + 지터
+     */
+    private backoff(attempt: number): number {
+        const delay = Math.min(this.options.maxDelay, this.options.baseDelay * 2 ** attempt);
+        return Math.round(delay / 2 + (Math.random() * delay) / 2);
+    }
+}
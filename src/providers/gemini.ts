@@ -1,6 +1,33 @@
-import { GoogleGenerativeAI, GenerativeModel, GenerateContentResult } from '@google/generative-ai';
-import { BaseProvider, ChatResponse, StreamChunk } from './base';
-import { Message } from '../config/types';
+import {
+    GoogleGenerativeAI,
+    GenerativeModel,
+    GenerateContentResult,
+    GenerateContentRequest,
+    Content,
+    Part,
+    FunctionCall,
+    FunctionDeclarationsTool,
+    SchemaType,
+    Schema,
+    SafetySetting,
+    HarmCategory,
+    HarmBlockThreshold,
+    GenerationConfig,
+    LogprobsResult,
+    EnhancedGenerateContentResponse,
+    UsageMetadata,
+} from '@google/generative-ai';
+import { BaseProvider, ChatResponse, StreamChunk, TokenLogprob } from './base';
+import { ProviderError } from './errors';
+import {
+    Message,
+    ProviderType,
+    SafetySettingConfig,
+    TokenUsage,
+    Tool,
+    ToolCall,
+    ToolParameter,
+} from '../config/types';
 
 /**
  * Gemini 프로바이더 옵션
@@ -18,16 +45,79 @@ export interface GeminiOptions {
     topK?: number;
     /** 최대 토큰 */
     maxTokens?: number;
+    /** 컨텍스트 윈도우 크기 (토큰) */
+    contextWindow?: number;
+    /** 등장 페널티 */
+    presencePenalty?: number;
+    /** 빈도 페널티 */
+    frequencyPenalty?: number;
+    /** 난수 시드 */
+    seed?: number;
+    /** 토큰별 상위 후보 확률 개수 (비스트리밍 응답의 logprobs) */
+    nProbs?: number;
+    /** 생성 중단 문자열 */
+    stopSequences?: string[];
+    /** 응답 MIME 타입 (text/plain 또는 application/json) */
+    responseMimeType?: string;
+    /** 안전 필터 설정 */
+    safetySettings?: SafetySettingConfig[];
+    /** API 기본 URL (프록시 사용 시) */
+    endpoint?: string;
 }
 
+/**
+ * 생성 설정 (SDK 타입에 없는 seed 포함, API는 그대로 전달)
+ */
+interface GeminiGenerationConfig extends GenerationConfig {
+    seed?: number;
+    /** 사고 모델의 추론 과정(thought 파트) 포함 여부 */
+    thinkingConfig?: { includeThoughts?: boolean };
+}
+
+/**
+ * 추론 과정 여부가 표시된 파트 (SDK 타입에 없는 필드)
+ */
+type GeminiPart = Part & { thought?: boolean };
+
+/**
+ * 추론 토큰 수가 포함된 사용량 (SDK 타입에 없는 필드)
+ */
+type GeminiUsageMetadata = UsageMetadata & { thoughtsTokenCount?: number };
+
+/**
+ * 생성자에서 모델 설정에만 쓰는 옵션
+ */
+type ModelOnlyOptionKey =
+    | 'presencePenalty'
+    | 'frequencyPenalty'
+    | 'seed'
+    | 'nProbs'
+    | 'stopSequences'
+    | 'responseMimeType'
+    | 'safetySettings'
+    | 'endpoint';
+
+/**
+ * systemInstruction을 지원하지 않는 모델 (시스템 프롬프트를 첫 유저 메시지에 포함)
+ */
+const NO_SYSTEM_INSTRUCTION_MODELS = /^(models\/)?(gemma|gemini-1\.0)/;
+
+/**
+ * 추론 과정(thought)을 반환할 수 있는 사고 모델
+ */
+const THINKING_MODELS = /^(models\/)?gemini-(2\.5|[3-9])/;
+
 /**
  * Gemini 프로바이더
  */
 export class GeminiProvider extends BaseProvider {
     readonly name = 'Gemini';
+    readonly type: ProviderType = 'gemini';
     private client: GoogleGenerativeAI;
     private model: GenerativeModel;
-    private options: Required<GeminiOptions>;
+    private options: Required<Omit<GeminiOptions, ModelOnlyOptionKey>>;
+    /** 모델이 systemInstruction을 지원하는지 (거부되면 false로 바뀜) */
+    private supportsSystemInstruction: boolean;
 
     constructor(options: GeminiOptions) {
         super();
@@ -43,46 +133,73 @@ export class GeminiProvider extends BaseProvider {
             topP: options.topP ?? 0.9,
             topK: options.topK ?? 40,
             maxTokens: options.maxTokens ?? 2048,
+            contextWindow: options.contextWindow ?? 1048576,
+        };
+
+        this.supportsSystemInstruction = !NO_SYSTEM_INSTRUCTION_MODELS.test(this.options.model);
+
+        const generationConfig: GeminiGenerationConfig = {
+            temperature: this.options.temperature,
+            topP: this.options.topP,
+            topK: this.options.topK,
+            maxOutputTokens: this.options.maxTokens,
+            presencePenalty: options.presencePenalty,
+            frequencyPenalty: options.frequencyPenalty,
+            seed: options.seed,
+            responseLogprobs: options.nProbs ? true : undefined,
+            logprobs: options.nProbs || undefined,
+            stopSequences: options.stopSequences,
+            responseMimeType: options.responseMimeType,
+            thinkingConfig: THINKING_MODELS.test(this.options.model)
+                ? { includeThoughts: true }
+                : undefined,
         };
 
         this.client = new GoogleGenerativeAI(this.options.apiKey);
-        this.model = this.client.getGenerativeModel({
-            model: this.options.model,
-            generationConfig: {
-                temperature: this.options.temperature,
-                topP: this.options.topP,
-                topK: this.options.topK,
-                maxOutputTokens: this.options.maxTokens,
+        this.model = this.client.getGenerativeModel(
+            {
+                model: this.options.model,
+                generationConfig,
+                safetySettings: options.safetySettings?.map(
+                    (setting): SafetySetting => ({
+                        category: setting.category as HarmCategory,
+                        threshold: setting.threshold as HarmBlockThreshold,
+                    })
+                ),
             },
-        });
+            options.endpoint ? { baseUrl: options.endpoint } : undefined
+        );
     }
 
     /**
      * 채팅 완료
      */
-    async chat(messages: Message[], systemPrompt?: string): Promise<ChatResponse> {
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
         try {
-            const contents = this.formatMessages(messages, systemPrompt);
-
-            const result: GenerateContentResult = await this.model.generateContent({
-                contents: contents,
-            });
+            const result: GenerateContentResult = await this.send(
+                (request) => this.model.generateContent(request, { signal }),
+                messages,
+                systemPrompt,
+                tools,
+                '채팅 요청 실패',
+                signal
+            );
 
             const response = result.response;
-            const text = response.text();
-
-            // 토큰 사용량 계산
-            const tokensUsed = response.usageMetadata
-                ? {
-                    prompt: response.usageMetadata.promptTokenCount || 0,
-                    completion: response.usageMetadata.candidatesTokenCount || 0,
-                    total: response.usageMetadata.totalTokenCount || 0,
-                }
-                : undefined;
+            const { text, reasoning } = splitThoughts(response);
+            const toolCalls = this.parseFunctionCalls(response.functionCalls());
 
             return {
                 text,
-                tokensUsed,
+                reasoning: reasoning || undefined,
+                tokensUsed: parseUsage(response.usageMetadata),
+                toolCalls,
+                logprobs: parseLogprobs(response.candidates?.[0]?.logprobsResult),
             };
         } catch (error) {
             this.handleError(error, '채팅 요청 실패');
@@ -95,25 +212,57 @@ export class GeminiProvider extends BaseProvider {
     async stream(
         messages: Message[],
         systemPrompt: string | undefined,
-        onChunk: (chunk: StreamChunk) => void
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
     ): Promise<ChatResponse> {
         try {
-            const contents = this.formatMessages(messages, systemPrompt);
-
-            const result = await this.model.generateContentStream({
-                contents: contents,
-            });
+            const result = await this.send(
+                (request) => this.model.generateContentStream(request, { signal }),
+                messages,
+                systemPrompt,
+                tools,
+                '스트리밍 요청 실패',
+                signal
+            );
 
             let fullText = '';
+            let fullReasoning = '';
+            const functionCalls: FunctionCall[] = [];
 
-            for await (const chunk of result.stream) {
-                const chunkText = chunk.text();
-                fullText += chunkText;
+            try {
+                for await (const chunk of result.stream) {
+                    if (signal?.aborted) {
+                        break;
+                    }
 
-                onChunk({
-                    text: chunkText,
-                    done: false,
-                });
+                    const { text: chunkText, reasoning } = splitThoughts(chunk);
+                    fullText += chunkText;
+                    fullReasoning += reasoning;
+                    functionCalls.push(...(chunk.functionCalls() ?? []));
+
+                    if (reasoning) {
+                        onChunk({ text: reasoning, done: false, kind: 'reasoning' });
+                    }
+                    if (chunkText) {
+                        onChunk({
+                            text: chunkText,
+                            done: false,
+                        });
+                    }
+                }
+            } catch (error) {
+                // 중단되면 연결이 끊겨 스트림이 오류로 끝남
+                if (!signal?.aborted) {
+                    throw error;
+                }
+            }
+
+            // 중단 시 그때까지 받은 텍스트로 응답 (집계 응답도 함께 실패하므로 무시)
+            if (signal?.aborted) {
+                result.response.catch(() => undefined);
+                onChunk({ text: '', done: true });
+                return { text: fullText, reasoning: fullReasoning || undefined };
             }
 
             // 스트림 완료 신호
@@ -121,17 +270,12 @@ export class GeminiProvider extends BaseProvider {
 
             // 최종 응답 가져오기
             const finalResponse = await result.response;
-            const tokensUsed = finalResponse.usageMetadata
-                ? {
-                    prompt: finalResponse.usageMetadata.promptTokenCount || 0,
-                    completion: finalResponse.usageMetadata.candidatesTokenCount || 0,
-                    total: finalResponse.usageMetadata.totalTokenCount || 0,
-                }
-                : undefined;
 
             return {
                 text: fullText,
-                tokensUsed,
+                reasoning: fullReasoning || undefined,
+                tokensUsed: parseUsage(finalResponse.usageMetadata),
+                toolCalls: this.parseFunctionCalls(functionCalls),
             };
         } catch (error) {
             this.handleError(error, '스트리밍 요청 실패');
@@ -151,6 +295,13 @@ export class GeminiProvider extends BaseProvider {
         }
     }
 
+    /**
+     * 컨텍스트 윈도우 크기
+     */
+    async getContextWindow(): Promise<number> {
+        return this.options.contextWindow;
+    }
+
     /**
      * API 연결 확인
      */
@@ -165,15 +316,133 @@ export class GeminiProvider extends BaseProvider {
     }
 
     /**
-     * 메시지를 Gemini 형식으로 변환
+     * 요청 전송 (시스템 프롬프트는 systemInstruction으로 전달)
+     * 모델이 systemInstruction을 거부하면 첫 유저 메시지에 포함하는 방식으로 한 번 더 시도합니다.
      */
-    private formatMessages(
+    private async send<T>(
+        request: (body: GenerateContentRequest) => Promise<T>,
         messages: Message[],
-        systemPrompt?: string
-    ): Array<{ role: string; parts: Array<{ text: string }> }> {
-        const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+        systemPrompt: string | undefined,
+        tools: Tool[] | undefined,
+        context: string,
+        signal?: AbortSignal
+    ): Promise<T> {
+        const useSystemInstruction = this.supportsSystemInstruction && !!systemPrompt;
+
+        try {
+            return await this.withRetry(
+                () => request(this.buildRequest(messages, systemPrompt, tools, useSystemInstruction)),
+                context,
+                signal
+            );
+        } catch (error) {
+            if (!useSystemInstruction || !isSystemInstructionRejected(error)) {
+                throw error;
+            }
+            this.supportsSystemInstruction = false;
+            return this.withRetry(
+                () => request(this.buildRequest(messages, systemPrompt, tools, false)),
+                context,
+                signal
+            );
+        }
+    }
+
+    /**
+     * generateContent 요청 본문 생성
+     */
+    private buildRequest(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        tools: Tool[] | undefined,
+        useSystemInstruction: boolean
+    ): GenerateContentRequest {
+        return {
+            contents: this.formatMessages(messages, useSystemInstruction ? undefined : systemPrompt),
+            systemInstruction: useSystemInstruction ? systemPrompt : undefined,
+            tools: this.formatTools(tools),
+        };
+    }
+
+    /**
+     * 도구를 Gemini functionDeclarations 형식으로 변환
+     */
+    private formatTools(tools?: Tool[]): FunctionDeclarationsTool[] | undefined {
+        if (!tools || tools.length === 0) {
+            return undefined;
+        }
+
+        return [
+            {
+                functionDeclarations: tools.map((tool) => {
+                    const properties = Object.entries(tool.parameters.properties);
+                    return {
+                        name: tool.name,
+                        description: tool.description,
+                        // Gemini는 빈 properties 객체를 거부하므로 파라미터가 없으면 생략
+                        parameters: properties.length > 0
+                            ? {
+                                type: SchemaType.OBJECT,
+                                properties: Object.fromEntries(
+                                    properties.map(([key, param]) => [key, this.toSchema(param)])
+                                ),
+                                required: tool.parameters.required,
+                            }
+                            : undefined,
+                    };
+                }),
+            },
+        ];
+    }
+
+    /**
+     * 도구 파라미터를 Gemini 스키마로 변환
+     */
+    private toSchema(param: ToolParameter): Schema {
+        return {
+            type: param.type as SchemaType,
+            description: param.description,
+            enum: param.enum,
+            items: param.items ? this.toSchema(param.items) : undefined,
+        };
+    }
+
+    /**
+     * Gemini 함수 호출을 ToolCall로 변환 (Gemini는 호출 ID를 주지 않음)
+     */
+    private parseFunctionCalls(calls?: FunctionCall[]): ToolCall[] | undefined {
+        if (!calls || calls.length === 0) {
+            return undefined;
+        }
+
+        return calls.map((call) => ({
+            id: this.generateToolCallId(),
+            name: call.name,
+            arguments: this.parseToolArguments(call.args),
+        }));
+    }
+
+    /**
+     * 도구 실행 결과를 functionResponse 파트로 변환
+     */
+    private toFunctionResponsePart(msg: Message): Part {
+        const parsed = this.parseToolArguments(msg.content);
+        return {
+            functionResponse: {
+                name: msg.name ?? 'unknown',
+                // response는 객체여야 하므로 JSON이 아니면 감싸서 전달
+                response: Object.keys(parsed).length > 0 ? parsed : { result: msg.content },
+            },
+        };
+    }
+
+    /**
+     * 메시지를 Gemini 형식으로 변환
+     * @param systemPrompt systemInstruction을 쓰지 못할 때만 전달 (첫 유저 메시지에 포함)
+     */
+    private formatMessages(messages: Message[], systemPrompt?: string): Content[] {
+        const contents: Content[] = [];
 
-        // Gemini는 시스템 프롬프트를 첫 번째 유저 메시지에 포함
         let firstUserMessage = true;
 
         for (const msg of messages) {
@@ -182,6 +451,15 @@ export class GeminiProvider extends BaseProvider {
                 continue;
             }
 
+            // 도구 실행 결과는 function 역할의 functionResponse로 전달
+            if (msg.role === 'function') {
+                contents.push({
+                    role: 'function',
+                    parts: [this.toFunctionResponsePart(msg)],
+                });
+                continue;
+            }
+
             let content = msg.content;
 
             // 첫 번째 유저 메시지에 시스템 프롬프트 추가
@@ -193,12 +471,86 @@ export class GeminiProvider extends BaseProvider {
             // Gemini는 'assistant' 대신 'model'을 사용
             const role = msg.role === 'assistant' ? 'model' : msg.role;
 
+            const parts: Part[] = (msg.images ?? []).map((image) => ({
+                inlineData: { mimeType: image.mimeType, data: image.data },
+            }));
+            if (content) {
+                parts.push({ text: content });
+            }
+            for (const call of msg.toolCalls ?? []) {
+                parts.push({ functionCall: { name: call.name, args: call.arguments } });
+            }
+
             contents.push({
                 role: role,
-                parts: [{ text: content }],
+                parts,
             });
         }
 
         return contents;
     }
 }
+
+/**
+ * 모델이 systemInstruction을 거부한 에러인지 확인
+ * (예: "Developer instruction is not enabled for models/gemma-3-27b-it")
+ */
+function isSystemInstructionRejected(error: unknown): boolean {
+    return (
+        error instanceof ProviderError &&
+        error.status === 400 &&
+        /(developer|system).?instruction/i.test(error.message)
+    );
+}
+
+/**
+ * logprobsResult를 토큰별 로그 확률로 변환
+ */
+function parseLogprobs(result: LogprobsResult | undefined): TokenLogprob[] | undefined {
+    return result?.chosenCandidates.map((chosen, index) => ({
+        token: chosen.token,
+        logprob: chosen.logProbability,
+        topLogprobs: result.topCandidates[index]?.candidates.map((candidate) => ({
+            token: candidate.token,
+            logprob: candidate.logProbability,
+        })),
+    }));
+}
+
+/**
+ * 응답 텍스트와 추론 과정(thought 파트) 분리
+ * 추론 파트가 없으면 SDK의 text()를 그대로 사용합니다 (차단된 응답은 에러).
+ */
+function splitThoughts(response: EnhancedGenerateContentResponse): {
+    text: string;
+    reasoning: string;
+} {
+    const parts: GeminiPart[] = response.candidates?.[0]?.content?.parts ?? [];
+    if (!parts.some((part) => part.thought)) {
+        return { text: response.text(), reasoning: '' };
+    }
+
+    const join = (thought: boolean) =>
+        parts
+            .filter((part) => Boolean(part.thought) === thought)
+            .map((part) => part.text ?? '')
+            .join('');
+    return { text: join(false), reasoning: join(true) };
+}
+
+/**
+ * 토큰 사용량
+ * Gemini의 candidatesTokenCount에는 추론 토큰이 빠져 있으므로, 다른 프로바이더처럼
+ * 추론 토큰까지 출력 토큰(completion)으로 합쳐 출력 가격으로 계산되게 합니다.
+ */
+function parseUsage(metadata: GeminiUsageMetadata | undefined): TokenUsage | undefined {
+    if (!metadata) {
+        return undefined;
+    }
+    return {
+        prompt: metadata.promptTokenCount || 0,
+        completion: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+        total: metadata.totalTokenCount || 0,
+        reasoning: metadata.thoughtsTokenCount,
+    };
+}
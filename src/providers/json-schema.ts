@@ -0,0 +1,159 @@
+/**
+ * JSON Schema (구조화 출력에 쓰는 주요 키워드만)
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    const?: unknown;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minItems?: number;
+    maxItems?: number;
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    allOf?: JsonSchema[];
+    description?: string;
+}
+
+/**
+ * JSON Schema 타입
+ */
+export type JsonSchemaType =
+    | 'object'
+    | 'array'
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'null';
+
+/**
+ * 값이 스키마를 만족하는지 검사
+ * ($ref 등 지원하지 않는 키워드는 무시합니다. 생성 단계에서 서버의 문법이 이미 형식을 강제합니다.)
+ * @returns 위반 내용 목록 (비어 있으면 유효)
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    const errors: string[] = [];
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => matchesType(value, type))) {
+            return [`${path}: ${types.join(' | ')} 타입이어야 합니다`];
+        }
+    }
+
+    if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+        errors.push(`${path}: ${JSON.stringify(schema.enum)} 중 하나여야 합니다`);
+    }
+    if (schema.const !== undefined && !isEqual(schema.const, value)) {
+        errors.push(`${path}: ${JSON.stringify(schema.const)}이어야 합니다`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path}: ${schema.minimum} 이상이어야 합니다`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path}: ${schema.maximum} 이하여야 합니다`);
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path}: ${schema.minLength}자 이상이어야 합니다`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path}: ${schema.maxLength}자 이하여야 합니다`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path}: ${schema.pattern} 패턴과 맞지 않습니다`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: 항목이 ${schema.minItems}개 이상이어야 합니다`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: 항목이 ${schema.maxItems}개 이하여야 합니다`);
+        }
+        if (schema.items) {
+            const items = schema.items;
+            value.forEach((item, index) => {
+                errors.push(...validateJson(item, items, `${path}[${index}]`));
+            });
+        }
+    }
+
+    if (isPlainObject(value)) {
+        for (const key of schema.required ?? []) {
+            if (!(key in value)) {
+                errors.push(`${path}.${key}: 필수 항목입니다`);
+            }
+        }
+        for (const [key, child] of Object.entries(value)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                errors.push(...validateJson(child, propertySchema, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: 허용되지 않은 항목입니다`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                const additional = schema.additionalProperties;
+                errors.push(...validateJson(child, additional, `${path}.${key}`));
+            }
+        }
+    }
+
+    for (const sub of schema.allOf ?? []) {
+        errors.push(...validateJson(value, sub, path));
+    }
+    const matches = (sub: JsonSchema) => validateJson(value, sub, path).length === 0;
+    if (schema.anyOf && !schema.anyOf.some(matches)) {
+        errors.push(`${path}: anyOf 조건을 하나도 만족하지 않습니다`);
+    }
+    if (schema.oneOf) {
+        if (schema.oneOf.filter(matches).length !== 1) {
+            errors.push(`${path}: oneOf 조건 중 정확히 하나를 만족해야 합니다`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * JSON 값의 타입 확인
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+    switch (type) {
+        case 'object':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'null':
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON 값 비교 (enum, const)
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
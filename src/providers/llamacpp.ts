@@ -1,6 +1,45 @@
+import path from 'path';
 import axios, { AxiosInstance } from 'axios';
-import { BaseProvider, ChatResponse, StreamChunk } from './base';
-import { Message } from '../config/types';
+import { BaseProvider, ChatResponse, ProviderInfo, StreamChunk, TokenLogprob } from './base';
+import { StructuredOutputError, UnsupportedFeatureError } from './errors';
+import { JsonSchema, validateJson } from './json-schema';
+import { SseDecoder, SseEvent } from './sse';
+import { ReasoningPart, splitThinkTags, ThinkTagSplitter } from './reasoning';
+import { Message, ProviderType, TokenUsage, Tool, ToolCall } from '../config/types';
+
+/**
+ * OpenAI 호환 도구 호출 형식
+ */
+interface LlamaCppToolCall {
+    id?: string;
+    type?: 'function';
+    function: {
+        name: string;
+        arguments: string;
+    };
+}
+
+/**
+ * 스트리밍 중 도구 호출 델타
+ */
+interface LlamaCppToolCallDelta {
+    index: number;
+    id?: string;
+    type?: 'function';
+    function?: {
+        name?: string;
+        arguments?: string;
+    };
+}
+
+/**
+ * OpenAI 호환 토큰 로그 확률
+ */
+interface LlamaCppLogprob {
+    token: string;
+    logprob: number;
+    top_logprobs?: { token: string; logprob: number }[];
+}
 
 /**
  * llama.cpp 서버 응답 형식
@@ -8,14 +47,25 @@ import { Message } from '../config/types';
 interface LlamaCppResponse {
     content?: string;
     choices?: Array<{
-        message?: { content: string };
-        delta?: { content: string };
+        message?: {
+            content: string | null;
+            /** --reasoning-format으로 분리된 추론 과정 */
+            reasoning_content?: string | null;
+            tool_calls?: LlamaCppToolCall[];
+        };
+        delta?: {
+            content?: string | null;
+            reasoning_content?: string | null;
+            tool_calls?: LlamaCppToolCallDelta[];
+        };
+        logprobs?: { content?: LlamaCppLogprob[] | null } | null;
         finish_reason?: string;
     }>;
     usage?: {
         prompt_tokens: number;
         completion_tokens: number;
         total_tokens: number;
+        completion_tokens_details?: { reasoning_tokens?: number };
     };
     stop?: boolean;
     generation_settings?: {
@@ -27,66 +77,256 @@ interface LlamaCppResponse {
         predicted_n: number;
         total_n?: number;
     };
+    /** 스트리밍 중 발생한 에러 */
+    error?: LlamaCppStreamError | string;
+}
+
+/**
+ * 스트리밍 중 에러 이벤트 (예: 컨텍스트 초과)
+ */
+interface LlamaCppStreamError {
+    code?: number;
+    message?: string;
+    type?: string;
+}
+
+/**
+ * OpenAI 형식 멀티모달 콘텐츠 파트
+ */
+type LlamaCppContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * llama.cpp 서버 채팅 메시지
+ */
+interface LlamaCppChatMessage {
+    role: string;
+    content: string | null | LlamaCppContentPart[];
+    tool_calls?: LlamaCppToolCall[];
+    tool_call_id?: string;
+    name?: string;
+}
+
+/**
+ * OpenAI 호환 도구 스키마
+ */
+interface LlamaCppToolSchema {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: Tool['parameters'];
+    };
 }
 
 /**
  * llama.cpp 서버 채팅 요청
  */
-interface LlamaCppChatRequest {
-    messages: Array<{
-        role: string;
-        content: string;
-    }>;
+export interface LlamaCppChatRequest {
+    model?: string;
+    messages: LlamaCppChatMessage[];
     temperature?: number;
     top_p?: number;
     top_k?: number;
+    min_p?: number;
+    repeat_penalty?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    seed?: number;
+    stop?: string[];
+    logprobs?: boolean;
+    top_logprobs?: number;
     max_tokens?: number;
     stream?: boolean;
+    tools?: LlamaCppToolSchema[];
+    tool_choice?: 'auto' | 'none';
+}
+
+/**
+ * llama.cpp /tokenize 응답
+ */
+interface LlamaCppTokenizeResponse {
+    tokens: number[];
+}
+
+/**
+ * llama.cpp /props 응답 (필요한 부분만)
+ */
+interface LlamaCppPropsResponse {
+    default_generation_settings?: { n_ctx?: number };
+    generation_settings?: { n_ctx?: number };
+    model_path?: string;
+    chat_template?: string;
+    /** 입력 모달리티 (--mmproj로 멀티모달 프로젝터를 로드하면 vision) */
+    modalities?: { vision?: boolean; audio?: boolean };
+    /** 구버전 서버의 멀티모달 여부 */
+    multimodal?: boolean;
+}
+
+/**
+ * /v1/models 응답 (OpenAI 호환)
+ */
+interface LlamaCppModelsResponse {
+    data?: { id: string }[];
+}
+
+/**
+ * llama.cpp /completion 요청 (원시 프롬프트 완성)
+ */
+interface LlamaCppCompletionRequest {
+    prompt: string;
+    n_predict: number;
+    temperature: number;
+    top_p: number;
+    top_k: number;
+    min_p?: number;
+    repeat_penalty?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    seed?: number;
+    stop?: string[];
+    n_probs?: number;
+    stream: false;
+    /** GBNF 문법 */
+    grammar?: string;
+    /** 서버가 GBNF 문법으로 변환하는 JSON Schema */
+    json_schema?: JsonSchema;
+}
+
+/**
+ * llama.cpp /completion 응답 (필요한 부분만)
+ */
+interface LlamaCppCompletionResponse {
+    content: string;
+    /** n_probs 요청 시 토큰별 로그 확률 (chat 응답의 logprobs.content와 같은 형식) */
+    completion_probabilities?: LlamaCppLogprob[];
+    tokens_predicted?: number;
+    tokens_evaluated?: number;
+}
+
+/**
+ * 원시 프롬프트 완성 옵션 (grammar와 jsonSchema 중 하나로 출력 형식 제한)
+ */
+export interface CompletionOptions {
+    /** GBNF 문법 */
+    grammar?: string;
+    /** JSON Schema */
+    jsonSchema?: JsonSchema;
+    /** 최대 토큰 (기본: maxTokens 설정) */
+    maxTokens?: number;
+    /** 온도 (기본: temperature 설정) */
+    temperature?: number;
 }
 
+/**
+ * 서버에서 컨텍스트 크기를 알 수 없을 때 사용할 값
+ */
+export const FALLBACK_CONTEXT_WINDOW = 4096;
+
 /**
  * llama.cpp 프로바이더 옵션
  */
 export interface LlamaCppOptions {
     /** 서버 엔드포인트 */
     endpoint: string;
+    /** 모델 이름 (서버가 여러 모델을 제공할 때) */
+    model?: string;
     /** 온도 */
     temperature?: number;
     /** Top-p */
     topP?: number;
     /** Top-k */
     topK?: number;
+    /** Min-p */
+    minP?: number;
+    /** 반복 페널티 */
+    repeatPenalty?: number;
+    /** 등장 페널티 */
+    presencePenalty?: number;
+    /** 빈도 페널티 */
+    frequencyPenalty?: number;
+    /** 난수 시드 */
+    seed?: number;
+    /** 생성 중단 문자열 */
+    stopSequences?: string[];
+    /** 토큰별 상위 후보 확률 개수 (비스트리밍 응답의 logprobs) */
+    nProbs?: number;
     /** 최대 토큰 */
     maxTokens?: number;
+    /** 컨텍스트 윈도우 크기 (토큰, 미지정 시 서버의 n_ctx 사용) */
+    contextWindow?: number;
     /** 타임아웃 (ms) */
     timeout?: number;
+    /** Bearer 토큰 (서버의 --api-key) */
+    apiKey?: string;
+    /** 추가 HTTP 헤더 */
+    headers?: Record<string, string>;
 }
 
+/**
+ * 설정한 경우에만 전송하는 샘플링 옵션
+ */
+type OptionalSamplingKey =
+    | 'minP'
+    | 'repeatPenalty'
+    | 'presencePenalty'
+    | 'frequencyPenalty'
+    | 'seed'
+    | 'stopSequences'
+    | 'nProbs';
+
 /**
  * llama.cpp 프로바이더
  */
 export class LlamaCppProvider extends BaseProvider {
-    readonly name = 'llama.cpp';
-    private client: AxiosInstance;
-    private options: Required<LlamaCppOptions>;
+    readonly name: string = 'llama.cpp';
+    readonly type: ProviderType = 'llamacpp';
+    protected client: AxiosInstance;
+    protected options: Required<
+        Omit<LlamaCppOptions, 'contextWindow' | 'apiKey' | 'headers' | OptionalSamplingKey>
+    >;
+    /** 서버 기본값 대신 사용할 샘플링 옵션 */
+    protected sampling: Pick<LlamaCppOptions, OptionalSamplingKey>;
+    /** 설정값 또는 서버에서 조회한 n_ctx */
+    protected contextWindow?: number;
+    /** 채팅 완료 API 경로 */
+    protected chatPath = '/v1/chat/completions';
+    /** 모델 목록 API 경로 */
+    protected modelsPath = '/v1/models';
+    /** 서버에서 조회한 정보 (한 번 조회에 성공하면 재사용) */
+    protected info?: ProviderInfo;
 
     constructor(options: LlamaCppOptions) {
         super();
 
         this.options = {
             endpoint: options.endpoint,
+            model: options.model ?? 'default',
             temperature: options.temperature ?? 0.7,
             topP: options.topP ?? 0.9,
             topK: options.topK ?? 40,
             maxTokens: options.maxTokens ?? 2048,
             timeout: options.timeout ?? 60000,
         };
+        this.sampling = {
+            minP: options.minP,
+            repeatPenalty: options.repeatPenalty,
+            presencePenalty: options.presencePenalty,
+            frequencyPenalty: options.frequencyPenalty,
+            seed: options.seed,
+            stopSequences: options.stopSequences,
+            nProbs: options.nProbs,
+        };
+        this.contextWindow = options.contextWindow;
 
         this.client = axios.create({
             baseURL: this.options.endpoint,
             timeout: this.options.timeout,
             headers: {
                 'Content-Type': 'application/json',
+                ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+                ...options.headers,
             },
         });
     }
@@ -94,44 +334,39 @@ export class LlamaCppProvider extends BaseProvider {
     /**
      * 채팅 완료
      */
-    async chat(messages: Message[], systemPrompt?: string): Promise<ChatResponse> {
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
         try {
-            const formattedMessages = this.formatMessages(messages, systemPrompt);
-
-            const request: LlamaCppChatRequest = {
-                messages: formattedMessages,
-                temperature: this.options.temperature,
-                top_p: this.options.topP,
-                top_k: this.options.topK,
-                max_tokens: this.options.maxTokens,
-                stream: false,
-            };
+            await this.assertSupported(messages);
+            const request = this.buildRequest(messages, systemPrompt, tools, false);
 
-            const response = await this.client.post<LlamaCppResponse>(
-                '/v1/chat/completions',
-                request
+            const response = await this.withRetry(
+                () => this.client.post<LlamaCppResponse>(this.chatPath, request, { signal }),
+                '채팅 요청 실패',
+                signal
             );
 
             const data = response.data;
 
             // OpenAI 호환 포맷 지원
-            const text = data.choices?.[0]?.message?.content || data.content || '';
+            const choice = data.choices?.[0];
+            const message = choice?.message;
+            // 추론 과정은 reasoning_content 또는 본문의 <think> 블록으로 전달됨
+            const { text, reasoning } = splitThinkTags(message?.content || data.content || '');
+            const toolCalls = message?.tool_calls?.length
+                ? this.parseToolCalls(message.tool_calls)
+                : undefined;
 
             return {
                 text,
-                tokensUsed: data.usage
-                    ? {
-                        prompt: data.usage.prompt_tokens,
-                        completion: data.usage.completion_tokens,
-                        total: data.usage.total_tokens,
-                    }
-                    : data.timings
-                        ? {
-                            prompt: data.timings.prompt_n,
-                            completion: data.timings.predicted_n,
-                            total: data.timings.prompt_n + data.timings.predicted_n,
-                        }
-                        : undefined,
+                reasoning: message?.reasoning_content || reasoning || undefined,
+                toolCalls,
+                logprobs: choice?.logprobs?.content?.map(toTokenLogprob),
+                tokensUsed: this.parseUsage(data),
             };
         } catch (error) {
             this.handleError(error, '채팅 요청 실패');
@@ -144,69 +379,133 @@ export class LlamaCppProvider extends BaseProvider {
     async stream(
         messages: Message[],
         systemPrompt: string | undefined,
-        onChunk: (chunk: StreamChunk) => void
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
     ): Promise<ChatResponse> {
         try {
-            const formattedMessages = this.formatMessages(messages, systemPrompt);
-
-            const request: LlamaCppChatRequest = {
-                messages: formattedMessages,
-                temperature: this.options.temperature,
-                top_p: this.options.topP,
-                top_k: this.options.topK,
-                max_tokens: this.options.maxTokens,
-                stream: true,
-            };
+            await this.assertSupported(messages);
+            const request = this.buildRequest(messages, systemPrompt, tools, true);
 
-            const response = await this.client.post('/v1/chat/completions', request, {
-                responseType: 'stream',
-            });
+            const response = await this.withRetry(
+                () => this.client.post(this.chatPath, request, { responseType: 'stream', signal }),
+                '스트리밍 요청 실패',
+                signal
+            );
 
             let fullText = '';
+            let fullReasoning = '';
+            let tokensUsed: TokenUsage | undefined;
+            // 도구 호출 델타는 index별로 누적
+            const pendingToolCalls = new Map<number, LlamaCppToolCall>();
+            const decoder = new SseDecoder();
+            const splitter = new ThinkTagSplitter();
+            const emit = (part: ReasoningPart) => {
+                if (part.kind === 'reasoning') {
+                    fullReasoning += part.text;
+                } else {
+                    fullText += part.text;
+                }
+                onChunk({ text: part.text, done: false, kind: part.kind });
+            };
 
             return new Promise((resolve, reject) => {
-                response.data.on('data', (chunk: Buffer) => {
-                    const lines = chunk.toString().split('\n').filter((line) => line.trim());
-
-                    for (const line of lines) {
-                        if (line.startsWith('data: ')) {
-                            const data = line.slice(6).trim();
-
-                            if (data === '[DONE]') {
-                                onChunk({ text: '', done: true });
-                                resolve({ text: fullText });
-                                return;
-                            }
-
-                            try {
-                                const parsed = JSON.parse(data);
-                                let content = '';
-
-                                // OpenAI 호환 포맷 지원
-                                if (parsed.choices?.[0]?.delta?.content) {
-                                    content = parsed.choices[0].delta.content;
-                                } else if (parsed.content) {
-                                    // 기존 llama.cpp 포맷 지원
-                                    content = parsed.content;
-                                }
-
-                                if (content) {
-                                    fullText += content;
-                                    onChunk({ text: content, done: false });
-                                }
-                            } catch (e) {
-                                // JSON 파싱 실패 무시
-                            }
+                let settled = false;
+                const finish = () => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    signal?.removeEventListener('abort', abort);
+                    splitter.end().forEach(emit);
+                    onChunk({ text: '', done: true });
+                    resolve({
+                        text: fullText,
+                        reasoning: fullReasoning || undefined,
+                        toolCalls: pendingToolCalls.size > 0
+                            ? this.parseToolCalls(Array.from(pendingToolCalls.values()))
+                            : undefined,
+                        tokensUsed,
+                    });
+                };
+                const fail = (error: Error) => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    signal?.removeEventListener('abort', abort);
+                    response.data.destroy();
+                    reject(this.toProviderError(error, '스트리밍 응답 오류'));
+                };
+                // 중단 시 소켓을 닫고 그때까지 받은 텍스트로 응답
+                const abort = () => {
+                    response.data.destroy();
+                    finish();
+                };
+
+                const handleEvent = (event: SseEvent) => {
+                    if (settled) {
+                        return;
+                    }
+                    if (event.data === '[DONE]') {
+                        finish();
+                        return;
+                    }
+
+                    let parsed: LlamaCppResponse;
+                    try {
+                        parsed = JSON.parse(event.data);
+                    } catch {
+                        if (event.event === 'error') {
+                            fail(new Error(event.data));
                         }
+                        // 그 외 JSON이 아닌 데이터는 무시
+                        return;
+                    }
+
+                    if (event.event === 'error' || parsed.error) {
+                        fail(toStreamError(parsed.error ?? event.data));
+                        return;
+                    }
+
+                    // OpenAI 호환 포맷, 기존 llama.cpp 포맷(content) 순서로 확인
+                    const delta = parsed.choices?.[0]?.delta;
+                    if (delta?.reasoning_content) {
+                        emit({ kind: 'reasoning', text: delta.reasoning_content });
                     }
+                    const content = delta?.content || parsed.content;
+                    if (content) {
+                        splitter.push(content).forEach(emit);
+                    }
+
+                    for (const toolCall of delta?.tool_calls ?? []) {
+                        this.mergeToolCallDelta(pendingToolCalls, toolCall);
+                    }
+
+                    // 사용량은 마지막 청크의 usage 또는 timings에 포함
+                    tokensUsed = this.parseUsage(parsed) ?? tokensUsed;
+                };
+
+                if (signal?.aborted) {
+                    abort();
+                    return;
+                }
+                signal?.addEventListener('abort', abort, { once: true });
+
+                response.data.on('data', (chunk: Buffer) => {
+                    decoder.push(chunk).forEach(handleEvent);
                 });
 
                 response.data.on('error', (error: Error) => {
-                    reject(error);
+                    if (signal?.aborted) {
+                        return;
+                    }
+                    fail(error);
                 });
 
                 response.data.on('end', () => {
-                    resolve({ text: fullText });
+                    decoder.end().forEach(handleEvent);
+                    finish();
                 });
             });
         } catch (error) {
@@ -215,14 +514,197 @@ export class LlamaCppProvider extends BaseProvider {
     }
 
     /**
-     * 토큰 수 계산 (대략적)
+     * 토큰 수 계산 (서버의 /tokenize 사용)
      */
     async countTokens(text: string): Promise<number> {
-        // llama.cpp는 토큰 카운팅 API가 없으므로 대략적으로 계산
-        // 영어: 대략 1 토큰 = 4자
-        // 한글: 대략 1 토큰 = 1-2자
-        const approximateTokens = Math.ceil(text.length / 3);
-        return approximateTokens;
+        if (!text) {
+            return 0;
+        }
+
+        try {
+            const response = await this.client.post<LlamaCppTokenizeResponse>('/tokenize', {
+                content: text,
+            });
+            return response.data.tokens.length;
+        } catch {
+            // 서버가 응답하지 않으면 대략적으로 계산 (한글: 대략 1 토큰 = 1-2자)
+            return Math.ceil(text.length / 3);
+        }
+    }
+
+    /**
+     * 컨텍스트 윈도우 크기 (설정값이 없으면 서버의 n_ctx)
+     */
+    async getContextWindow(): Promise<number> {
+        if (this.contextWindow) {
+            return this.contextWindow;
+        }
+        return (await this.getInfo()).contextWindow ?? FALLBACK_CONTEXT_WINDOW;
+    }
+
+    /**
+     * 서버 정보 조회 (/props와 /v1/models)
+     * 로드된 모델, n_ctx, 채팅 템플릿, 멀티모달 지원 여부를 알 수 있습니다.
+     */
+    async getInfo(): Promise<ProviderInfo> {
+        if (this.info) {
+            return this.info;
+        }
+
+        const [props, models] = await Promise.all([
+            this.client
+                .get<LlamaCppPropsResponse>('/props')
+                .then((response) => response.data)
+                // 구버전 서버는 /props가 없을 수 있음
+                .catch(() => undefined),
+            this.listModels().catch(() => [] as string[]),
+        ]);
+
+        const settings = props?.default_generation_settings ?? props?.generation_settings;
+        const info: ProviderInfo = {
+            model:
+                this.options.model !== 'default'
+                    ? this.options.model
+                    : models[0] ?? (props?.model_path ? path.basename(props.model_path) : undefined),
+            contextWindow: this.contextWindow ?? settings?.n_ctx,
+            chatTemplate: props?.chat_template || undefined,
+            vision: props ? Boolean(props.modalities?.vision ?? props.multimodal) : undefined,
+            models,
+        };
+
+        // 서버가 아직 준비되지 않았으면 다음에 다시 조회
+        if (props || models.length > 0) {
+            this.info = info;
+        }
+        return info;
+    }
+
+    /**
+     * 서버에서 제공하는 모델 목록
+     */
+    async listModels(): Promise<string[]> {
+        try {
+            const response = await this.client.get<LlamaCppModelsResponse>(this.modelsPath);
+            return (response.data.data ?? []).map((model) => model.id);
+        } catch (error) {
+            this.handleError(error, '모델 목록 조회 실패');
+        }
+    }
+
+    /**
+     * 원시 프롬프트 완성 (/completion)
+     * 채팅 템플릿을 적용하지 않으므로 프롬프트는 applyTemplate으로 만들어 전달합니다.
+     */
+    async complete(prompt: string, options: CompletionOptions = {}): Promise<ChatResponse> {
+        const request: LlamaCppCompletionRequest = {
+            prompt,
+            n_predict: options.maxTokens ?? this.options.maxTokens,
+            temperature: options.temperature ?? this.options.temperature,
+            top_p: this.options.topP,
+            top_k: this.options.topK,
+            min_p: this.sampling.minP,
+            repeat_penalty: this.sampling.repeatPenalty,
+            presence_penalty: this.sampling.presencePenalty,
+            frequency_penalty: this.sampling.frequencyPenalty,
+            seed: this.sampling.seed,
+            stop: this.sampling.stopSequences,
+            n_probs: this.sampling.nProbs,
+            stream: false,
+        };
+        if (options.grammar) {
+            request.grammar = options.grammar;
+        } else if (options.jsonSchema) {
+            request.json_schema = options.jsonSchema;
+        }
+
+        try {
+            const response = await this.withRetry(
+                () => this.client.post<LlamaCppCompletionResponse>('/completion', request),
+                '완성 요청 실패'
+            );
+
+            const { content, completion_probabilities, tokens_evaluated, tokens_predicted } =
+                response.data;
+            return {
+                text: content ?? '',
+                logprobs: completion_probabilities?.map(toTokenLogprob),
+                tokensUsed:
+                    tokens_evaluated !== undefined && tokens_predicted !== undefined
+                        ? {
+                            prompt: tokens_evaluated,
+                            completion: tokens_predicted,
+                            total: tokens_evaluated + tokens_predicted,
+                        }
+                        : undefined,
+            };
+        } catch (error) {
+            this.handleError(error, '완성 요청 실패');
+        }
+    }
+
+    /**
+     * 모델의 채팅 템플릿으로 프롬프트 생성 (/apply-template)
+     * 구버전 서버처럼 엔드포인트가 없으면 단순한 텍스트 형식으로 대신합니다.
+     */
+    async applyTemplate(messages: Message[], systemPrompt?: string): Promise<string> {
+        const formatted = this.formatMessages(messages, systemPrompt);
+
+        try {
+            const response = await this.client.post<{ prompt: string }>('/apply-template', {
+                messages: formatted,
+            });
+            return response.data.prompt;
+        } catch {
+            const turns = formatted.map((msg) => {
+                const content = Array.isArray(msg.content)
+                    ? msg.content.map((part) => (part.type === 'text' ? part.text : '')).join('')
+                    : msg.content ?? '';
+                return `${msg.role}: ${content}`;
+            });
+            return `${turns.join('\n\n')}\n\nassistant: `;
+        }
+    }
+
+    /**
+     * JSON Schema로 출력을 제한한 구조화 응답
+     * 서버가 스키마를 문법으로 변환해 생성을 제한하고, 결과는 다시 스키마로 검증합니다.
+     * @throws StructuredOutputError 응답이 JSON이 아니거나 스키마와 맞지 않을 때
+     */
+    async completeJson<T = unknown>(
+        messages: Message[],
+        schema: JsonSchema,
+        systemPrompt?: string
+    ): Promise<T> {
+        // 스키마를 프롬프트에도 포함해야 필드의 의미에 맞는 값을 생성
+        const instruction =
+            '다음 JSON Schema를 만족하는 JSON 객체 하나만 출력하세요.\n' +
+            JSON.stringify(schema, null, 2);
+        const prompt = await this.applyTemplate(
+            messages,
+            systemPrompt ? `${systemPrompt}\n\n${instruction}` : instruction
+        );
+        const response = await this.complete(prompt, { jsonSchema: schema });
+
+        let value: unknown;
+        try {
+            value = JSON.parse(response.text);
+        } catch {
+            throw new StructuredOutputError(
+                `[${this.name}] 응답이 올바른 JSON이 아닙니다 (출력이 max_tokens에서 잘렸을 수 있습니다).`,
+                [],
+                response.text
+            );
+        }
+
+        const violations = validateJson(value, schema);
+        if (violations.length > 0) {
+            throw new StructuredOutputError(
+                `[${this.name}] 응답이 JSON Schema와 맞지 않습니다: ${violations.join(', ')}`,
+                violations,
+                response.text
+            );
+        }
+        return value as T;
     }
 
     /**
@@ -238,13 +720,145 @@ export class LlamaCppProvider extends BaseProvider {
     }
 
     /**
-     * 메시지를 llama.cpp 형식으로 변환
+     * 이미지가 포함된 요청을 텍스트 전용 모델에 보내지 않도록 확인
+     */
+    protected async assertSupported(messages: Message[]): Promise<void> {
+        if (!messages.some((msg) => msg.images?.length)) {
+            return;
+        }
+
+        const info = await this.getInfo();
+        if (info.vision === false) {
+            throw new UnsupportedFeatureError(
+                `[${this.name}] 현재 모델(${info.model ?? '알 수 없음'})은 이미지 입력을 지원하지 않습니다. ` +
+                '멀티모달 모델을 --mmproj 옵션과 함께 로드하여 서버를 실행하세요.'
+            );
+        }
+    }
+
+    /**
+     * 채팅 요청 본문 생성
      */
-    private formatMessages(
+    protected buildRequest(
         messages: Message[],
-        systemPrompt?: string
-    ): Array<{ role: string; content: string }> {
-        const formatted: Array<{ role: string; content: string }> = [];
+        systemPrompt: string | undefined,
+        tools: Tool[] | undefined,
+        stream: boolean
+    ): LlamaCppChatRequest {
+        const request: LlamaCppChatRequest = {
+            messages: this.formatMessages(messages, systemPrompt),
+            temperature: this.options.temperature,
+            top_p: this.options.topP,
+            top_k: this.options.topK,
+            min_p: this.sampling.minP,
+            repeat_penalty: this.sampling.repeatPenalty,
+            presence_penalty: this.sampling.presencePenalty,
+            frequency_penalty: this.sampling.frequencyPenalty,
+            seed: this.sampling.seed,
+            stop: this.sampling.stopSequences,
+            max_tokens: this.options.maxTokens,
+            stream,
+        };
+
+        // 스트리밍 응답의 logprobs는 사용하지 않음
+        if (this.sampling.nProbs && !stream) {
+            request.logprobs = true;
+            request.top_logprobs = this.sampling.nProbs;
+        }
+
+        // 'default'는 서버에 로드된 모델을 그대로 사용
+        if (this.options.model !== 'default') {
+            request.model = this.options.model;
+        }
+
+        // 도구 호출은 서버가 --jinja 옵션으로 실행되어야 동작
+        if (tools && tools.length > 0) {
+            request.tools = this.formatTools(tools);
+            request.tool_choice = 'auto';
+        }
+
+        return request;
+    }
+
+    /**
+     * 도구를 OpenAI 호환 tools 형식으로 변환
+     */
+    private formatTools(tools: Tool[]): LlamaCppToolSchema[] {
+        return tools.map((tool) => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            },
+        }));
+    }
+
+    /**
+     * 토큰 사용량 (OpenAI 호환 usage, 없으면 llama.cpp timings)
+     */
+    private parseUsage(data: LlamaCppResponse): TokenUsage | undefined {
+        if (data.usage) {
+            return {
+                prompt: data.usage.prompt_tokens,
+                completion: data.usage.completion_tokens,
+                total: data.usage.total_tokens,
+                reasoning: data.usage.completion_tokens_details?.reasoning_tokens,
+            };
+        }
+        if (data.timings) {
+            return {
+                prompt: data.timings.prompt_n,
+                completion: data.timings.predicted_n,
+                total: data.timings.prompt_n + data.timings.predicted_n,
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * 응답의 tool_calls를 ToolCall로 변환
+     */
+    private parseToolCalls(toolCalls: LlamaCppToolCall[]): ToolCall[] {
+        return toolCalls
+            .filter((call) => call.function?.name)
+            .map((call) => ({
+                id: call.id || this.generateToolCallId(),
+                name: call.function.name,
+                arguments: this.parseToolArguments(call.function.arguments),
+            }));
+    }
+
+    /**
+     * 스트리밍 도구 호출 델타 누적
+     */
+    private mergeToolCallDelta(
+        pending: Map<number, LlamaCppToolCall>,
+        delta: LlamaCppToolCallDelta
+    ): void {
+        const existing = pending.get(delta.index) ?? {
+            type: 'function',
+            function: { name: '', arguments: '' },
+        };
+
+        if (delta.id) {
+            existing.id = delta.id;
+        }
+        if (delta.function?.name) {
+            existing.function.name += delta.function.name;
+        }
+        if (delta.function?.arguments) {
+            existing.function.arguments += delta.function.arguments;
+        }
+
+        pending.set(delta.index, existing);
+    }
+
+    /**
+     * 메시지를 llama.cpp 형식으로 변환
+     */
+    private formatMessages(messages: Message[], systemPrompt?: string): LlamaCppChatMessage[] {
+        const formatted: LlamaCppChatMessage[] = [];
 
         // 시스템 프롬프트 추가
         if (systemPrompt) {
@@ -256,6 +870,48 @@ export class LlamaCppProvider extends BaseProvider {
 
         // 메시지 변환
         for (const msg of messages) {
+            // 도구 실행 결과는 OpenAI 형식의 tool 역할로 전달
+            if (msg.role === 'function') {
+                formatted.push({
+                    role: 'tool',
+                    content: msg.content,
+                    tool_call_id: msg.toolCallId,
+                    name: msg.name,
+                });
+                continue;
+            }
+
+            if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                formatted.push({
+                    role: 'assistant',
+                    content: msg.content || null,
+                    tool_calls: msg.toolCalls.map((call) => ({
+                        id: call.id,
+                        type: 'function',
+                        function: {
+                            name: call.name,
+                            arguments: JSON.stringify(call.arguments),
+                        },
+                    })),
+                });
+                continue;
+            }
+
+            // 이미지는 data URI의 image_url 파트로 전달 (--mmproj로 실행한 서버 필요)
+            if (msg.images?.length) {
+                formatted.push({
+                    role: msg.role,
+                    content: [
+                        ...msg.images.map((image): LlamaCppContentPart => ({
+                            type: 'image_url',
+                            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                        })),
+                        { type: 'text', text: msg.content },
+                    ],
+                });
+                continue;
+            }
+
             formatted.push({
                 role: msg.role,
                 content: msg.content,
@@ -265,3 +921,26 @@ export class LlamaCppProvider extends BaseProvider {
         return formatted;
     }
 }
+
+/**
+ * 서버의 토큰 로그 확률을 공통 형식으로 변환
+ */
+function toTokenLogprob(entry: LlamaCppLogprob): TokenLogprob {
+    return {
+        token: entry.token,
+        logprob: entry.logprob,
+        topLogprobs: entry.top_logprobs,
+    };
+}
+
+/**
+ * 스트림 에러 이벤트를 Error로 변환 (code는 상태 코드로 분류에 사용)
+ */
+function toStreamError(error: LlamaCppStreamError | string): Error {
+    if (typeof error === 'string') {
+        return new Error(error);
+    }
+    return Object.assign(new Error(error.message ?? error.type ?? '스트리밍 오류'), {
+        status: error.code,
+    });
+}
@@ -0,0 +1,418 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseProvider, ChatResponse, ProviderInfo, StreamChunk } from './base';
+import { Message, ProviderType, TokenUsage, Tool, ToolCall } from '../config/types';
+
+/**
+ * Ollama 도구 호출 (arguments는 객체)
+ */
+interface OllamaToolCall {
+    function: {
+        name: string;
+        arguments: Record<string, unknown> | string;
+    };
+}
+
+/**
+ * Ollama 채팅 메시지
+ */
+interface OllamaChatMessage {
+    role: string;
+    content: string;
+    /** base64 이미지 (멀티모달 모델) */
+    images?: string[];
+    tool_calls?: OllamaToolCall[];
+    /** 도구 결과가 어느 도구에서 왔는지 */
+    tool_name?: string;
+}
+
+/**
+ * Ollama /api/chat 요청
+ */
+interface OllamaChatRequest {
+    model: string;
+    messages: OllamaChatMessage[];
+    stream: boolean;
+    tools?: {
+        type: 'function';
+        function: { name: string; description: string; parameters: Tool['parameters'] };
+    }[];
+    options: {
+        temperature: number;
+        top_p: number;
+        top_k: number;
+        num_predict: number;
+        num_ctx?: number;
+    };
+}
+
+/**
+ * Ollama /api/chat 응답 (스트리밍 시 한 줄)
+ */
+interface OllamaChatResponse {
+    message?: OllamaChatMessage;
+    done: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+    error?: string;
+}
+
+/**
+ * Ollama /api/tags 응답
+ */
+interface OllamaTagsResponse {
+    models: { name: string }[];
+}
+
+/**
+ * Ollama 기본 컨텍스트 크기 (num_ctx 미지정 시)
+ */
+const OLLAMA_DEFAULT_CONTEXT = 2048;
+
+/**
+ * Ollama 프로바이더 옵션
+ */
+export interface OllamaOptions {
+    /** 서버 엔드포인트 */
+    endpoint: string;
+    /** 모델 이름 (예: llama3.2) */
+    model: string;
+    /** 온도 */
+    temperature?: number;
+    /** Top-p */
+    topP?: number;
+    /** Top-k */
+    topK?: number;
+    /** 최대 토큰 */
+    maxTokens?: number;
+    /** 컨텍스트 윈도우 크기 (지정하면 num_ctx로 전송) */
+    contextWindow?: number;
+    /** 타임아웃 (ms) */
+    timeout?: number;
+}
+
+/**
+ * Ollama 프로바이더 (네이티브 /api/chat 사용)
+ */
+export class OllamaProvider extends BaseProvider {
+    readonly name = 'Ollama';
+    readonly type: ProviderType = 'ollama';
+    private client: AxiosInstance;
+    private options: Required<Omit<OllamaOptions, 'contextWindow'>>;
+    private contextWindow?: number;
+
+    constructor(options: OllamaOptions) {
+        super();
+
+        this.options = {
+            endpoint: options.endpoint,
+            model: options.model,
+            temperature: options.temperature ?? 0.7,
+            topP: options.topP ?? 0.9,
+            topK: options.topK ?? 40,
+            maxTokens: options.maxTokens ?? 2048,
+            timeout: options.timeout ?? 120000,
+        };
+        this.contextWindow = options.contextWindow;
+
+        this.client = axios.create({
+            baseURL: this.options.endpoint,
+            timeout: this.options.timeout,
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+    }
+
+    /**
+     * 채팅 완료
+     */
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, systemPrompt, tools, false);
+            const response = await this.withRetry(
+                () => this.client.post<OllamaChatResponse>('/api/chat', request, { signal }),
+                '채팅 요청 실패',
+                signal
+            );
+            const data = response.data;
+
+            return {
+                text: data.message?.content ?? '',
+                toolCalls: data.message?.tool_calls?.length
+                    ? this.parseToolCalls(data.message.tool_calls)
+                    : undefined,
+                tokensUsed: this.parseUsage(data),
+            };
+        } catch (error) {
+            this.handleError(error, '채팅 요청 실패');
+        }
+    }
+
+    /**
+     * 채팅 스트리밍 (NDJSON: 한 줄에 JSON 객체 하나)
+     */
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        try {
+            const request = this.buildRequest(messages, systemPrompt, tools, true);
+
+            const response = await this.withRetry(
+                () => this.client.post('/api/chat', request, { responseType: 'stream', signal }),
+                '스트리밍 요청 실패',
+                signal
+            );
+
+            let fullText = '';
+            let buffer = '';
+            let tokensUsed: TokenUsage | undefined;
+            const toolCalls: ToolCall[] = [];
+
+            return new Promise((resolve, reject) => {
+                let settled = false;
+                const finish = () => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    onChunk({ text: '', done: true });
+                    resolve({
+                        text: fullText,
+                        tokensUsed,
+                        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                    });
+                };
+                const fail = (error: Error) => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    reject(this.toProviderError(error, '스트리밍 응답 오류'));
+                };
+
+                const handleLine = (line: string) => {
+                    if (!line.trim()) {
+                        return;
+                    }
+
+                    let parsed: OllamaChatResponse;
+                    try {
+                        parsed = JSON.parse(line);
+                    } catch {
+                        // 잘못된 줄은 무시
+                        return;
+                    }
+
+                    if (parsed.error) {
+                        response.data.destroy();
+                        fail(new Error(parsed.error));
+                        return;
+                    }
+
+                    const content = parsed.message?.content;
+                    if (content) {
+                        fullText += content;
+                        onChunk({ text: content, done: false });
+                    }
+
+                    if (parsed.message?.tool_calls?.length) {
+                        toolCalls.push(...this.parseToolCalls(parsed.message.tool_calls));
+                    }
+
+                    if (parsed.done) {
+                        tokensUsed = this.parseUsage(parsed);
+                        finish();
+                    }
+                };
+
+                // 중단 시 소켓을 닫고 그때까지 받은 텍스트로 응답
+                signal?.addEventListener(
+                    'abort',
+                    () => {
+                        response.data.destroy();
+                        finish();
+                    },
+                    { once: true }
+                );
+
+                response.data.setEncoding('utf8');
+                response.data.on('data', (chunk: string) => {
+                    // 줄이 청크 경계에서 잘릴 수 있으므로 마지막 조각은 다음 청크와 합침
+                    buffer += chunk;
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() ?? '';
+                    lines.forEach(handleLine);
+                });
+
+                response.data.on('error', (error: Error) => {
+                    if (signal?.aborted) {
+                        return;
+                    }
+                    fail(error);
+                });
+
+                response.data.on('end', () => {
+                    handleLine(buffer);
+                    finish();
+                });
+            });
+        } catch (error) {
+            this.handleError(error, '스트리밍 요청 실패');
+        }
+    }
+
+    /**
+     * 토큰 수 계산 (Ollama는 토큰 카운팅 API가 없으므로 대략적)
+     */
+    async countTokens(text: string): Promise<number> {
+        return Math.ceil(text.length / 3);
+    }
+
+    /**
+     * 컨텍스트 윈도우 크기 (num_ctx)
+     */
+    async getContextWindow(): Promise<number> {
+        return this.contextWindow ?? OLLAMA_DEFAULT_CONTEXT;
+    }
+
+    /**
+     * 서버 상태 확인 (/api/tags)
+     */
+    async checkHealth(): Promise<boolean> {
+        try {
+            await this.client.get('/api/tags');
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 서버 정보 (설정한 모델과 설치된 모델 목록)
+     */
+    async getInfo(): Promise<ProviderInfo> {
+        return {
+            model: this.options.model,
+            contextWindow: await this.getContextWindow(),
+            models: await this.listModels().catch(() => []),
+        };
+    }
+
+    /**
+     * 설치된 모델 목록
+     */
+    async listModels(): Promise<string[]> {
+        try {
+            const response = await this.client.get<OllamaTagsResponse>('/api/tags');
+            return response.data.models.map((model) => model.name);
+        } catch (error) {
+            this.handleError(error, '모델 목록 조회 실패');
+        }
+    }
+
+    /**
+     * /api/chat 요청 본문 생성
+     */
+    private buildRequest(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        tools: Tool[] | undefined,
+        stream: boolean
+    ): OllamaChatRequest {
+        const request: OllamaChatRequest = {
+            model: this.options.model,
+            messages: this.formatMessages(messages, systemPrompt),
+            stream,
+            options: {
+                temperature: this.options.temperature,
+                top_p: this.options.topP,
+                top_k: this.options.topK,
+                num_predict: this.options.maxTokens,
+            },
+        };
+
+        if (this.contextWindow) {
+            request.options.num_ctx = this.contextWindow;
+        }
+
+        if (tools && tools.length > 0) {
+            request.tools = tools.map((tool) => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                },
+            }));
+        }
+
+        return request;
+    }
+
+    /**
+     * 메시지를 Ollama 형식으로 변환
+     */
+    private formatMessages(messages: Message[], systemPrompt?: string): OllamaChatMessage[] {
+        const formatted: OllamaChatMessage[] = [];
+
+        if (systemPrompt) {
+            formatted.push({ role: 'system', content: systemPrompt });
+        }
+
+        for (const msg of messages) {
+            // 도구 실행 결과는 tool 역할로 전달
+            if (msg.role === 'function') {
+                formatted.push({ role: 'tool', content: msg.content, tool_name: msg.name });
+                continue;
+            }
+
+            const message: OllamaChatMessage = { role: msg.role, content: msg.content };
+
+            if (msg.images?.length) {
+                message.images = msg.images.map((image) => image.data);
+            }
+
+            if (msg.toolCalls?.length) {
+                message.tool_calls = msg.toolCalls.map((call) => ({
+                    function: { name: call.name, arguments: call.arguments },
+                }));
+            }
+
+            formatted.push(message);
+        }
+
+        return formatted;
+    }
+
+    /**
+     * Ollama 도구 호출을 공통 형식으로 변환 (Ollama는 ID를 주지 않음)
+     */
+    private parseToolCalls(toolCalls: OllamaToolCall[]): ToolCall[] {
+        return toolCalls.map((call) => ({
+            id: this.generateToolCallId(),
+            name: call.function.name,
+            arguments: this.parseToolArguments(call.function.arguments),
+        }));
+    }
+
+    /**
+     * 토큰 사용량 (prompt_eval_count / eval_count)
+     */
+    private parseUsage(data: OllamaChatResponse): TokenUsage | undefined {
+        if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+            return undefined;
+        }
+        const prompt = data.prompt_eval_count ?? 0;
+        const completion = data.eval_count ?? 0;
+        return { prompt, completion, total: prompt + completion };
+    }
+}
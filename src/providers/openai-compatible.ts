@@ -0,0 +1,112 @@
+import {
+    LlamaCppProvider,
+    LlamaCppOptions,
+    LlamaCppChatRequest,
+    FALLBACK_CONTEXT_WINDOW,
+} from './llamacpp';
+import { ChatResponse, ProviderInfo } from './base';
+import { UnsupportedFeatureError } from './errors';
+import { Message, ProviderType, Tool } from '../config/types';
+
+/**
+ * OpenAI 호환 프로바이더 옵션
+ */
+export interface OpenAICompatibleOptions extends LlamaCppOptions {
+    /** 기본 URL (예: https://gateway.example.com/v1) */
+    endpoint: string;
+    /** 요청에 포함할 모델 이름 */
+    model: string;
+}
+
+/**
+ * OpenAI 호환 프로바이더 (vLLM, LM Studio, LocalAI, 사내 게이트웨이 등)
+ *
+ * llama.cpp와 같은 /chat/completions 프로토콜을 사용하지만,
+ * 기본 URL에 /v1이 포함되고 llama.cpp 전용 API(/tokenize, /props, /health)는 사용하지 않습니다.
+ */
+export class OpenAICompatibleProvider extends LlamaCppProvider {
+    readonly name = 'OpenAI 호환';
+    readonly type: ProviderType = 'openai-compatible';
+    protected chatPath = '/chat/completions';
+    protected modelsPath = '/models';
+    /** top_k는 표준 파라미터가 아니므로 설정한 경우에만 전송 */
+    private sendTopK: boolean;
+
+    constructor(options: OpenAICompatibleOptions) {
+        super(options);
+        this.sendTopK = options.topK !== undefined;
+    }
+
+    /**
+     * 토큰 수 계산 (표준 API에 토큰 카운팅이 없으므로 대략적)
+     */
+    async countTokens(text: string): Promise<number> {
+        return Math.ceil(text.length / 3);
+    }
+
+    /**
+     * 컨텍스트 윈도우 크기 (설정값, 없으면 보수적인 기본값)
+     */
+    async getContextWindow(): Promise<number> {
+        return this.contextWindow ?? FALLBACK_CONTEXT_WINDOW;
+    }
+
+    /**
+     * 서버 정보 (설정한 모델과 /models 목록)
+     */
+    async getInfo(): Promise<ProviderInfo> {
+        if (this.info) {
+            return this.info;
+        }
+
+        const info: ProviderInfo = {
+            model: this.options.model,
+            contextWindow: this.contextWindow,
+            models: await this.listModels().catch(() => []),
+        };
+
+        // 서버가 아직 준비되지 않았으면 다음에 다시 조회
+        if (info.models?.length) {
+            this.info = info;
+        }
+        return info;
+    }
+
+    /**
+     * 원시 프롬프트 완성 (llama.cpp 전용 /completion API라 지원하지 않음)
+     */
+    async complete(): Promise<ChatResponse> {
+        throw new UnsupportedFeatureError(
+            `[${this.name}] 문법/JSON Schema 제한 출력은 llama.cpp 서버에서만 사용할 수 있습니다.`
+        );
+    }
+
+    /**
+     * 서버 상태 확인 (/models)
+     */
+    async checkHealth(): Promise<boolean> {
+        try {
+            await this.client.get(this.modelsPath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 채팅 요청 본문 생성
+     */
+    protected buildRequest(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        tools: Tool[] | undefined,
+        stream: boolean
+    ): LlamaCppChatRequest {
+        const request = super.buildRequest(messages, systemPrompt, tools, stream);
+        request.model = this.options.model;
+        if (!this.sendTopK) {
+            delete request.top_k;
+        }
+        return request;
+    }
+}
@@ -0,0 +1,97 @@
+import { StreamChunkKind } from './base';
+
+/**
+ * 종류별로 나눈 응답 조각
+ */
+export interface ReasoningPart {
+    kind: StreamChunkKind;
+    text: string;
+}
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+/**
+ * 스트리밍 텍스트에서 <think>…</think> 블록을 추론으로 분리 (DeepSeek-R1, Qwen3 등)
+ * 태그가 청크 경계에서 잘릴 수 있으므로 태그의 앞부분일 수 있는 끝 조각은 다음 청크까지 보관합니다.
+ */
+export class ThinkTagSplitter {
+    private inThink = false;
+    private pending = '';
+    /** 추론 블록 직후의 줄바꿈은 응답에서 제외 */
+    private trimNext = false;
+
+    /**
+     * 텍스트를 추가하고 확정된 조각 반환
+     */
+    push(text: string): ReasoningPart[] {
+        const parts: ReasoningPart[] = [];
+        let buffer = this.pending + text;
+
+        for (;;) {
+            const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+            const index = buffer.indexOf(tag);
+            if (index === -1) {
+                break;
+            }
+            this.emit(parts, buffer.slice(0, index));
+            buffer = buffer.slice(index + tag.length);
+            this.inThink = !this.inThink;
+            this.trimNext = !this.inThink;
+        }
+
+        const keep = partialTagLength(buffer, this.inThink ? CLOSE_TAG : OPEN_TAG);
+        this.emit(parts, buffer.slice(0, buffer.length - keep));
+        this.pending = buffer.slice(buffer.length - keep);
+        return parts;
+    }
+
+    /**
+     * 스트림 종료 (보관 중인 조각 반환)
+     */
+    end(): ReasoningPart[] {
+        const parts: ReasoningPart[] = [];
+        this.emit(parts, this.pending);
+        this.pending = '';
+        return parts;
+    }
+
+    private emit(parts: ReasoningPart[], text: string): void {
+        if (this.trimNext && !this.inThink) {
+            text = text.replace(/^\s+/, '');
+            if (text) {
+                this.trimNext = false;
+            }
+        }
+        if (text) {
+            parts.push({ kind: this.inThink ? 'reasoning' : 'text', text });
+        }
+    }
+}
+
+/**
+ * 완성된 응답에서 <think> 블록 분리
+ */
+export function splitThinkTags(content: string): { text: string; reasoning: string } {
+    const splitter = new ThinkTagSplitter();
+    const parts = [...splitter.push(content), ...splitter.end()];
+    return {
+        text: parts.filter((part) => part.kind === 'text').map((part) => part.text).join(''),
+        reasoning: parts
+            .filter((part) => part.kind === 'reasoning')
+            .map((part) => part.text)
+            .join(''),
+    };
+}
+
+/**
+ * 텍스트 끝이 태그의 앞부분과 겹치는 길이
+ */
+function partialTagLength(text: string, tag: string): number {
+    for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+        if (text.endsWith(tag.slice(0, length))) {
+            return length;
+        }
+    }
+    return 0;
+}
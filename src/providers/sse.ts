@@ -0,0 +1,80 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Server-Sent Events 이벤트
+ */
+export interface SseEvent {
+    /** event: 필드 (없으면 message) */
+    event: string;
+    /** data: 줄들을 줄바꿈으로 이은 값 */
+    data: string;
+}
+
+/**
+ * 점진적 SSE 디코더
+ * 청크 경계에서 잘린 줄과 UTF-8 멀티바이트 문자(한글 등)는 다음 청크가 올 때까지 보관합니다.
+ */
+export class SseDecoder {
+    private decoder = new StringDecoder('utf8');
+    private buffer = '';
+    private eventName = '';
+    private dataLines: string[] = [];
+
+    /**
+     * 청크를 추가하고 완성된 이벤트 반환
+     */
+    push(chunk: Buffer | string): SseEvent[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+        return this.processLines(lines);
+    }
+
+    /**
+     * 스트림 종료 (빈 줄 없이 끝난 마지막 이벤트까지 반환)
+     */
+    end(): SseEvent[] {
+        const rest = this.buffer + this.decoder.end();
+        this.buffer = '';
+        return [...this.processLines(rest ? [rest] : []), ...this.dispatch()];
+    }
+
+    private processLines(lines: string[]): SseEvent[] {
+        const events: SseEvent[] = [];
+
+        for (const line of lines) {
+            // 빈 줄이 이벤트 경계
+            if (line === '') {
+                events.push(...this.dispatch());
+                continue;
+            }
+            // :로 시작하는 줄은 주석 (keep-alive)
+            if (line.startsWith(':')) {
+                continue;
+            }
+
+            const colon = line.indexOf(':');
+            const field = colon === -1 ? line : line.slice(0, colon);
+            const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+            if (field === 'data') {
+                this.dataLines.push(value);
+            } else if (field === 'event') {
+                this.eventName = value;
+            }
+        }
+
+        return events;
+    }
+
+    private dispatch(): SseEvent[] {
+        const events =
+            this.dataLines.length > 0
+                ? [{ event: this.eventName || 'message', data: this.dataLines.join('\n') }]
+                : [];
+        this.eventName = '';
+        this.dataLines = [];
+        return events;
+    }
+}
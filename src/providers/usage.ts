@@ -0,0 +1,79 @@
+import { BaseProvider, ChatResponse, ProviderInfo, StreamChunk } from './base';
+import { FallbackProvider } from './fallback';
+import { Message, TokenUsage, Tool } from '../config/types';
+
+/**
+ * 응답을 받을 때마다 호출되는 사용량 리스너
+ * @param provider 실제로 응답한 프로바이더 (폴백 체인이면 체인 안의 프로바이더)
+ */
+export type UsageListener = (
+    tokens: TokenUsage,
+    streaming: boolean,
+    provider: BaseProvider
+) => void | Promise<void>;
+
+/**
+ * 사용량 추적 프로바이더
+ *
+ * 서버가 알려준 토큰 사용량을 응답마다 리스너에 전달합니다. 에이전트 단계, 대화 압축 등
+ * 프로바이더를 거치는 모든 요청이 대상이며, 사용량이 없는 응답과 실패한 요청은 제외합니다.
+ */
+export class UsageTrackingProvider extends BaseProvider {
+    constructor(private inner: BaseProvider, private onUsage: UsageListener) {
+        super();
+    }
+
+    get name(): string {
+        return this.inner.name;
+    }
+
+    async chat(
+        messages: Message[],
+        systemPrompt?: string,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        const response = await this.inner.chat(messages, systemPrompt, tools, signal);
+        if (response.tokensUsed) {
+            await this.onUsage(response.tokensUsed, false, this.served);
+        }
+        return response;
+    }
+
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void,
+        tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        const response = await this.inner.stream(messages, systemPrompt, onChunk, tools, signal);
+        if (response.tokensUsed) {
+            await this.onUsage(response.tokensUsed, true, this.served);
+        }
+        return response;
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return this.inner.countTokens(text);
+    }
+
+    async getContextWindow(): Promise<number> {
+        return this.inner.getContextWindow();
+    }
+
+    async getInfo(): Promise<ProviderInfo> {
+        return this.inner.getInfo();
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return this.inner.checkHealth();
+    }
+
+    /**
+     * 마지막으로 응답한 프로바이더
+     */
+    private get served(): BaseProvider {
+        return this.inner instanceof FallbackProvider ? this.inner.current : this.inner;
+    }
+}
@@ -0,0 +1,206 @@
+import { BaseProvider } from '../providers/base';
+import { Message, ToolCall } from '../config/types';
+import { ToolRegistry } from './registry';
+
+/**
+ * 기본 최대 스텝 수
+ */
+export const DEFAULT_MAX_AGENT_STEPS = 10;
+
+/**
+ * 에이전트 루프 종료 사유
+ */
+export type AgentStopReason = 'final' | 'max-steps' | 'aborted';
+
+/**
+ * 에이전트 루프 옵션
+ */
+export interface AgentLoopOptions {
+    /** 사용할 프로바이더 */
+    provider: BaseProvider;
+    /** 도구 레지스트리 */
+    registry: ToolRegistry;
+    /** 지금까지의 대화 (마지막은 보통 사용자 메시지) */
+    messages: Message[];
+    /** 시스템 프롬프트 */
+    systemPrompt?: string;
+    /** 최대 스텝 수 (프로바이더 호출 횟수) */
+    maxSteps?: number;
+    /** 중단 신호 */
+    signal?: AbortSignal;
+    /** 도구 실행 후 콜백 (트레이스 출력용) */
+    onToolResult?: (step: number, call: ToolCall, result: unknown) => void;
+}
+
+/**
+ * 에이전트 루프 결과
+ */
+export interface AgentLoopResult {
+    /** 최종 응답 텍스트 */
+    text: string;
+    /** 루프 중 추가된 메시지 (assistant/function) */
+    messages: Message[];
+    /** 실행된 스텝 수 */
+    steps: number;
+    /** 종료 사유 */
+    stopReason: AgentStopReason;
+}
+
+/**
+ * 중단 에러
+ */
+export class AgentAbortedError extends Error {
+    constructor() {
+        super('에이전트 실행이 중단되었습니다.');
+        this.name = 'AgentAbortedError';
+    }
+}
+
+/**
+ * 중단되어 실행하지 않은 도구 호출의 결과
+ */
+const ABORTED_TOOL_RESULT = { error: '사용자가 중단하여 실행하지 않았습니다.' };
+
+/**
+ * 중단 신호가 오면 즉시 reject되는 Promise 래퍼
+ * (요청 자체는 프로바이더에 전달한 signal로 취소됩니다)
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(new AgentAbortedError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new AgentAbortedError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * 도구 실행 결과를 한 줄로 요약
+ */
+export function summarizeToolResult(result: unknown, maxLength: number = 80): string {
+    if (result === undefined || result === null) {
+        return '(결과 없음)';
+    }
+
+    if (typeof result === 'object') {
+        const record = result as Record<string, unknown>;
+        if (typeof record.error === 'string') {
+            return `오류: ${truncate(record.error, maxLength)}`;
+        }
+        if (typeof record.content === 'string') {
+            return `${record.content.length}자 읽음`;
+        }
+        if (Array.isArray(record.files)) {
+            return `${record.files.length}개 항목`;
+        }
+    }
+
+    const text = typeof result === 'string' ? result : JSON.stringify(result);
+    return truncate(text, maxLength);
+}
+
+function truncate(text: string, maxLength: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine;
+}
+
+/**
+ * 에이전트 루프 실행
+ *
+ * 모델이 도구 호출을 제안하면 실행하고 결과를 function 메시지로 덧붙인 뒤
+ * 최종 답변이 나오거나 최대 스텝에 도달할 때까지 프로바이더를 다시 호출합니다.
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_AGENT_STEPS;
+    const tools = options.registry.getTools();
+    const added: Message[] = [];
+    let lastText = '';
+
+    for (let step = 1; step <= maxSteps; step++) {
+        let response;
+        try {
+            response = await abortable(
+                options.provider.chat(
+                    [...options.messages, ...added],
+                    options.systemPrompt,
+                    tools,
+                    options.signal
+                ),
+                options.signal
+            );
+        } catch (error) {
+            if (error instanceof AgentAbortedError || options.signal?.aborted) {
+                return { text: lastText, messages: added, steps: step - 1, stopReason: 'aborted' };
+            }
+            throw error;
+        }
+
+        lastText = response.text;
+
+        if (!response.toolCalls || response.toolCalls.length === 0) {
+            added.push({ role: 'assistant', content: response.text, timestamp: new Date() });
+            return { text: response.text, messages: added, steps: step, stopReason: 'final' };
+        }
+
+        added.push({
+            role: 'assistant',
+            content: response.text,
+            toolCalls: response.toolCalls,
+            timestamp: new Date(),
+        });
+
+        for (const [index, call] of response.toolCalls.entries()) {
+            if (options.signal?.aborted) {
+                // 모든 도구 호출에 결과가 있어야 다음 요청이 유효하므로 남은 호출은 중단 결과로 채움
+                for (const skipped of response.toolCalls.slice(index)) {
+                    added.push({
+                        role: 'function',
+                        name: skipped.name,
+                        toolCallId: skipped.id,
+                        content: JSON.stringify(ABORTED_TOOL_RESULT),
+                        timestamp: new Date(),
+                    });
+                }
+                return { text: lastText, messages: added, steps: step, stopReason: 'aborted' };
+            }
+
+            let result: unknown;
+            try {
+                result = await options.registry.execute(
+                    call.name,
+                    call.arguments,
+                    options.signal
+                );
+            } catch (error) {
+                result = { error: error instanceof Error ? error.message : String(error) };
+            }
+
+            options.onToolResult?.(step, call, result);
+
+            added.push({
+                role: 'function',
+                name: call.name,
+                toolCallId: call.id,
+                content: JSON.stringify(result ?? null),
+                timestamp: new Date(),
+            });
+        }
+    }
+
+    return { text: lastText, messages: added, steps: maxSteps, stopReason: 'max-steps' };
+}
@@ -0,0 +1,108 @@
+import { GlobalConfig, ProjectConfig, Tool, ToolPermission } from '../config/types';
+import { loadConfig, saveConfig } from '../config/manager';
+import { readProjectConfig, writeProjectConfig } from '../config/project';
+
+/**
+ * 권한 요청에 대한 사용자 결정
+ * - once: 이번 호출만 허용
+ * - session: 현재 세션 동안 허용
+ * - always: 설정에 저장하여 항상 허용
+ * - deny: 거부
+ */
+export type PermissionDecision = 'once' | 'session' | 'always' | 'deny';
+
+/**
+ * 권한 요청 프롬프트 (대화형 UI에서 주입)
+ */
+export type PermissionPrompt = (
+    tool: Tool,
+    args: Record<string, unknown>
+) => Promise<PermissionDecision>;
+
+/**
+ * 허용된 권한 목록 계산 (프로젝트 설정이 전역 설정을 덮어씀)
+ */
+export function resolveAllowedTools(
+    globalConfig: GlobalConfig,
+    projectConfig?: ProjectConfig | null
+): ToolPermission[] {
+    return projectConfig?.allowedTools ?? globalConfig.allowedTools;
+}
+
+/**
+ * "항상 허용" 권한을 설정 파일에 저장
+ *
+ * 프로젝트 설정에 allowedTools가 있으면 그쪽이 우선하므로 프로젝트 설정에,
+ * 없으면 전역 설정에 저장합니다.
+ */
+export async function persistAllowedTool(permission: ToolPermission): Promise<void> {
+    const projectConfig = await readProjectConfig();
+
+    if (projectConfig?.allowedTools) {
+        if (!projectConfig.allowedTools.includes(permission)) {
+            projectConfig.allowedTools.push(permission);
+            await writeProjectConfig(projectConfig);
+        }
+        return;
+    }
+
+    const config = await loadConfig();
+    if (!config.allowedTools.includes(permission)) {
+        config.allowedTools = [...config.allowedTools, permission];
+        await saveConfig(config);
+    }
+}
+
+/**
+ * 도구 권한 관리자
+ */
+export class PermissionManager {
+    private allowed: Set<ToolPermission>;
+    private sessionGrants: Set<ToolPermission> = new Set();
+
+    constructor(
+        allowedTools: ToolPermission[],
+        private prompt?: PermissionPrompt,
+        private persist: (permission: ToolPermission) => Promise<void> = persistAllowedTool
+    ) {
+        this.allowed = new Set(allowedTools);
+    }
+
+    /**
+     * 권한이 이미 허용되어 있는지 확인 (프롬프트 없이)
+     */
+    isAllowed(permission: ToolPermission): boolean {
+        return this.allowed.has(permission) || this.sessionGrants.has(permission);
+    }
+
+    /**
+     * 도구 실행 허용 여부 확인
+     * 허용 목록에 없으면 프롬프트로 사용자에게 묻고, 프롬프트가 없으면 거부합니다.
+     */
+    async check(tool: Tool, args: Record<string, unknown>): Promise<boolean> {
+        if (this.isAllowed(tool.permission)) {
+            return true;
+        }
+
+        if (!this.prompt) {
+            return false;
+        }
+
+        const decision = await this.prompt(tool, args);
+
+        switch (decision) {
+            case 'once':
+                return true;
+            case 'session':
+                this.sessionGrants.add(tool.permission);
+                return true;
+            case 'always':
+                this.allowed.add(tool.permission);
+                await this.persist(tool.permission);
+                return true;
+            case 'deny':
+            default:
+                return false;
+        }
+    }
+}
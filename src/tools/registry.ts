@@ -1,14 +1,48 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { Tool } from '../config/types';
+import { Tool, ToolPermission } from '../config/types';
+import { PermissionManager } from './permissions';
+import { checkCommandSafety, executeCommand, CommandOptions } from '../files/command';
+
+/**
+ * 도구 에러 코드
+ * - PERMISSION_DENIED: 사용자가 도구 권한을 거부함
+ * - COMMAND_BLOCKED: 위험한 명령어로 분류되어 차단됨
+ * - COMMAND_REJECTED: 주의가 필요한 명령어를 사용자가 거부함
+ */
+export type ToolErrorCode = 'PERMISSION_DENIED' | 'COMMAND_BLOCKED' | 'COMMAND_REJECTED';
+
+/**
+ * 구조화된 도구 에러 (모델에게 도구 결과로 전달됨)
+ */
+export interface ToolErrorResult {
+    error: string;
+    code: ToolErrorCode;
+    tool: string;
+    permission?: ToolPermission;
+}
+
+/**
+ * 도구 레지스트리 옵션
+ */
+export interface ToolRegistryOptions {
+    /** 권한 관리자 (없으면 권한 확인 없이 실행) */
+    permissions?: PermissionManager;
+    /** 주의가 필요한 명령어 실행 확인 (없으면 거부) */
+    confirmCommand?: (command: string, reason: string) => Promise<boolean>;
+    /** run_command 실행 옵션 (타임아웃, 출력 제한) */
+    commandOptions?: CommandOptions;
+}
 
 /**
  * 도구 레지스트리
  */
 export class ToolRegistry {
     private tools: Map<string, Tool> = new Map();
+    private permissions?: PermissionManager;
 
-    constructor() {
+    constructor(private options: ToolRegistryOptions = {}) {
+        this.permissions = options.permissions;
         this.registerDefaultTools();
     }
 
@@ -29,6 +63,7 @@ export class ToolRegistry {
                 },
                 required: ['path'],
             },
+            permission: 'read',
             execute: async (args: { path: string }) => {
                 try {
                     const filePath = path.resolve(process.cwd(), args.path);
@@ -58,6 +93,7 @@ export class ToolRegistry {
                     },
                 },
             },
+            permission: 'read',
             execute: async (args: { path?: string }) => {
                 try {
                     const targetPath = path.resolve(process.cwd(), args.path || '.');
@@ -87,6 +123,7 @@ export class ToolRegistry {
                 type: 'object',
                 properties: {},
             },
+            permission: 'read',
             execute: async () => {
                 return { time: new Date().toISOString() };
             },
@@ -109,6 +146,7 @@ export class ToolRegistry {
                 },
                 required: ['path', 'content'],
             },
+            permission: 'write',
             execute: async (args: { path: string; content: string }) => {
                 try {
                     const filePath = path.resolve(process.cwd(), args.path);
@@ -136,17 +174,39 @@ export class ToolRegistry {
                 },
                 required: ['command'],
             },
-            execute: async (args: { command: string }) => {
-                try {
-                    const { exec } = require('child_process');
-                    const util = require('util');
-                    const execAsync = util.promisify(exec);
+            permission: 'bash',
+            execute: async (args: { command: string }, signal?: AbortSignal) => {
+                const safety = checkCommandSafety(args.command);
 
-                    const { stdout, stderr } = await execAsync(args.command, { cwd: process.cwd() });
-                    return { stdout, stderr };
-                } catch (error) {
-                    return { error: `Command failed: ${error instanceof Error ? error.message : String(error)}` };
+                if (safety.isDangerous) {
+                    const blocked: ToolErrorResult = {
+                        error: `Command blocked: "${args.command}" is classified as dangerous and will not be run.`,
+                        code: 'COMMAND_BLOCKED',
+                        tool: 'run_command',
+                    };
+                    return blocked;
                 }
+
+                if (safety.needsWarning) {
+                    const confirmed = this.options.confirmCommand
+                        ? await this.options.confirmCommand(args.command, safety.reason ?? '')
+                        : false;
+
+                    if (!confirmed) {
+                        const rejected: ToolErrorResult = {
+                            error: `Command rejected: the user did not confirm "${args.command}".`,
+                            code: 'COMMAND_REJECTED',
+                            tool: 'run_command',
+                        };
+                        return rejected;
+                    }
+                }
+
+                return await executeCommand(args.command, {
+                    cwd: process.cwd(),
+                    ...this.options.commandOptions,
+                    signal,
+                });
             },
         });
     }
@@ -166,13 +226,34 @@ export class ToolRegistry {
     }
 
     /**
-     * 도구 실행
+     * 도구 가져오기
+     */
+    getTool(name: string): Tool | undefined {
+        return this.tools.get(name);
+    }
+
+    /**
+     * 도구 실행 (권한이 거부되면 ToolErrorResult 반환)
+     * @param signal 중단 신호 (run_command는 실행 중인 프로세스를 종료)
      */
-    async execute(name: string, args: any): Promise<any> {
+    async execute(name: string, args: any, signal?: AbortSignal): Promise<any> {
         const tool = this.tools.get(name);
         if (!tool) {
             throw new Error(`Tool not found: ${name}`);
         }
-        return await tool.execute(args);
+
+        if (this.permissions && !(await this.permissions.check(tool, args ?? {}))) {
+            const denied: ToolErrorResult = {
+                error:
+                    `Permission denied: the user did not allow "${name}" ` +
+                    `(requires '${tool.permission}' permission). Do not retry; continue without it.`,
+                code: 'PERMISSION_DENIED',
+                tool: name,
+                permission: tool.permission,
+            };
+            return denied;
+        }
+
+        return await tool.execute(args, signal);
     }
 }
@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LlamaCppProvider } from '../../src/providers/llamacpp';
+
+/**
+ * 모의 서버가 받은 요청
+ */
+export interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    /** JSON 본문 (JSON이 아니면 문자열, 없으면 undefined) */
+    body: any;
+}
+
+/**
+ * 요청 처리 함수
+ * @param count 이번 테스트에서 받은 요청 수 (이번 요청 포함)
+ */
+export type MockHandler = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    count: number
+) => void;
+
+/**
+ * 프로바이더 테스트용 모의 HTTP 서버
+ * 요청 본문을 기록한 뒤 테스트마다 바꿔 끼우는 handler로 응답합니다.
+ */
+export class MockServer {
+    /** 기본 URL (http://127.0.0.1:포트) */
+    url = '';
+    requests: RecordedRequest[] = [];
+    handler: MockHandler = (_req, res) => reply(res, 404, { error: 'not found' });
+    private server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            this.requests.push({
+                method: req.method,
+                url: req.url,
+                headers: req.headers,
+                body: parseBody(raw),
+            });
+            this.handler(req, res, this.requests.length);
+        });
+    });
+
+    async listen(): Promise<void> {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async close(): Promise<void> {
+        await new Promise((resolve) => this.server.close(resolve));
+    }
+}
+
+/**
+ * describe 블록에서 모의 서버 사용 (전체 테스트 전에 시작, 테스트마다 요청 기록 초기화)
+ */
+export function useMockServer(): MockServer {
+    const server = new MockServer();
+
+    beforeAll(() => server.listen());
+    afterAll(() => server.close());
+    beforeEach(() => {
+        server.requests = [];
+    });
+
+    return server;
+}
+
+/**
+ * URL별 응답 처리 (없는 경로는 404)
+ */
+export function routeTo(
+    getRoutes: () => Record<string, (res: http.ServerResponse) => void>
+): MockHandler {
+    return (req, res) => {
+        const route = getRoutes()[req.url ?? ''];
+        if (route) {
+            route(res);
+        } else {
+            res.writeHead(404);
+            res.end();
+        }
+    };
+}
+
+/**
+ * JSON 응답
+ */
+export function reply(
+    res: http.ServerResponse,
+    status: number,
+    body: unknown,
+    headers: http.OutgoingHttpHeaders = {}
+): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * 200 JSON 응답 처리 함수
+ */
+export function json(body: unknown): (res: http.ServerResponse) => void {
+    return (res) => reply(res, 200, body);
+}
+
+/**
+ * SSE 이벤트 한 개 (name이 있으면 event: 줄 포함)
+ */
+export function sseEvent(data: unknown, name?: string): string {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    return `${name ? `event: ${name}\n` : ''}data: ${payload}\n\n`;
+}
+
+/**
+ * SSE 본문을 바이트 단위로 나눠 간격을 두고 전송 (줄·문자 중간에서 잘린 청크 재현)
+ */
+export function sse(body: string, splitAt: number[] = []): (res: http.ServerResponse) => void {
+    return (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const bytes = Buffer.from(body);
+        const points = [0, ...splitAt, bytes.length];
+        points.slice(1).forEach((end, index) => {
+            setTimeout(() => {
+                res.write(bytes.subarray(points[index], end));
+                if (end === bytes.length) {
+                    res.end();
+                }
+            }, index * 20);
+        });
+    };
+}
+
+/**
+ * 재시도 백오프를 기다리지 않고 대기 시간만 기록하는 llama.cpp 프로바이더
+ */
+export class NoWaitProvider extends LlamaCppProvider {
+    delays: number[] = [];
+
+    protected async sleep(ms: number): Promise<void> {
+        this.delays.push(ms);
+    }
+}
+
+function parseBody(raw: string): any {
+    if (!raw) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
@@ -31,6 +31,7 @@ async function testGeminiTools() {
                 },
                 required: ['location'],
             },
+            permission: 'read',
             execute: async (args) => {
                 return { location: args.location, temperature: '20', unit: 'celsius' };
             },
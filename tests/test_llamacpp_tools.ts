@@ -35,6 +35,7 @@ async function testLlamaCppTools() {
                 },
                 required: ['location'],
             },
+            permission: 'read',
             execute: async (args) => {
                 return { location: args.location, temperature: '20', unit: 'celsius' };
             },
@@ -0,0 +1,19 @@
+import { getApiKeyFromEnv } from '../../../src/config/manager';
+
+describe('getApiKeyFromEnv', () => {
+    const saved = { ...process.env };
+
+    afterEach(() => {
+        process.env = { ...saved };
+    });
+
+    it('should not send the OpenAI key to OpenAI-compatible endpoints', () => {
+        process.env.OPENAI_API_KEY = 'sk-openai';
+        delete process.env.FEELFREE_OPENAI_COMPATIBLE_API_KEY;
+
+        expect(getApiKeyFromEnv('openai-compatible')).toBeUndefined();
+
+        process.env.FEELFREE_OPENAI_COMPATIBLE_API_KEY = 'gateway-key';
+        expect(getApiKeyFromEnv('openai-compatible')).toBe('gateway-key');
+    });
+});
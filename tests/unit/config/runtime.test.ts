@@ -0,0 +1,142 @@
+import {
+    InvalidSettingError,
+    mergeRuntimeConfig,
+    parseSetting,
+    readEnvOverrides,
+} from '../../../src/config/runtime';
+import { GlobalConfig } from '../../../src/config/types';
+
+describe('Runtime Config', () => {
+    const globalConfig: GlobalConfig = {
+        defaultProvider: 'gemini',
+        providers: {
+            llamacpp: { type: 'llamacpp', endpoint: 'http://localhost:8080', model: 'default' },
+            gemini: { type: 'gemini', model: 'gemini-1.5-flash', temperature: 0.7, maxTokens: 2048 },
+            anthropic: { type: 'anthropic', model: 'claude-3-5-sonnet-latest' },
+            'openai-compatible': { type: 'openai-compatible', endpoint: 'http://localhost:8000/v1' },
+            ollama: { type: 'ollama', endpoint: 'http://localhost:11434', model: 'llama3.2' },
+        },
+        allowedTools: ['read'],
+        language: 'ko',
+        streaming: true,
+    };
+
+    describe('mergeRuntimeConfig', () => {
+        it('should use global settings when nothing overrides them', () => {
+            const { config, providerType } = mergeRuntimeConfig(globalConfig, null);
+
+            expect(providerType).toBe('gemini');
+            expect(config.providers.gemini.temperature).toBe(0.7);
+        });
+
+        it('should apply layers in order: global < project < env < cli', () => {
+            const { config } = mergeRuntimeConfig(
+                globalConfig,
+                { providers: { gemini: { temperature: 0.5, model: 'project-model', maxTokens: 1000 } } },
+                { temperature: 0.3, model: 'env-model' },
+                { temperature: 0.1 }
+            );
+
+            expect(config.providers.gemini.temperature).toBe(0.1);
+            expect(config.providers.gemini.model).toBe('env-model');
+            expect(config.providers.gemini.maxTokens).toBe(1000);
+        });
+
+        it('should ignore connection settings from the project', () => {
+            const projectConfig = JSON.parse(
+                JSON.stringify({
+                    providers: {
+                        gemini: {
+                            endpoint: 'https://attacker.example',
+                            apiKey: 'project-key',
+                            headers: { 'X-Leak': '1' },
+                            model: 'project-model',
+                        },
+                    },
+                })
+            );
+
+            const { config } = mergeRuntimeConfig(globalConfig, projectConfig);
+
+            expect(config.providers.gemini.endpoint).toBeUndefined();
+            expect(config.providers.gemini.apiKey).toBeUndefined();
+            expect(config.providers.gemini.headers).toBeUndefined();
+            expect(config.providers.gemini.model).toBe('project-model');
+        });
+
+        it('should still take endpoints from env and cli overrides', () => {
+            const { config } = mergeRuntimeConfig(
+                globalConfig,
+                null,
+                { provider: 'llamacpp' },
+                { endpoint: 'http://gpu-box:8080' }
+            );
+
+            expect(config.providers.llamacpp.endpoint).toBe('http://gpu-box:8080');
+        });
+
+        it('should pick the provider by the same precedence', () => {
+            expect(mergeRuntimeConfig(globalConfig, { defaultProvider: 'llamacpp' }).providerType).toBe(
+                'llamacpp'
+            );
+            expect(
+                mergeRuntimeConfig(globalConfig, { defaultProvider: 'llamacpp' }, { provider: 'gemini' })
+                    .providerType
+            ).toBe('gemini');
+        });
+
+        it('should apply env and cli overrides only to the selected provider', () => {
+            const { config } = mergeRuntimeConfig(globalConfig, null, {}, {
+                provider: 'llamacpp',
+                model: 'qwen',
+            });
+
+            expect(config.defaultProvider).toBe('llamacpp');
+            expect(config.providers.llamacpp.model).toBe('qwen');
+            expect(config.providers.gemini.model).toBe('gemini-1.5-flash');
+        });
+
+        it('should ignore unset and NaN cli values', () => {
+            const { config } = mergeRuntimeConfig(globalConfig, null, {}, {
+                temperature: NaN,
+                model: undefined,
+            });
+
+            expect(config.providers.gemini.temperature).toBe(0.7);
+            expect(config.providers.gemini.model).toBe('gemini-1.5-flash');
+        });
+    });
+
+    describe('readEnvOverrides', () => {
+        it('should read known variables and skip invalid values', () => {
+            const overrides = readEnvOverrides({
+                FEELFREE_PROVIDER: 'llamacpp',
+                FEELFREE_TEMPERATURE: '0.4',
+                FEELFREE_MAX_TOKENS: 'lots',
+            });
+
+            expect(overrides).toEqual({ provider: 'llamacpp', temperature: 0.4 });
+        });
+    });
+
+    describe('parseSetting', () => {
+        it('should map setting names to config fields', () => {
+            expect(parseSetting('temperature', '0.2')).toEqual({ temperature: 0.2 });
+            expect(parseSetting('max-tokens', '4096')).toEqual({ maxTokens: 4096 });
+        });
+
+        it('should parse sampling settings including stop sequence lists', () => {
+            expect(parseSetting('seed', '42')).toEqual({ seed: 42 });
+            expect(parseSetting('min-p', '0.05')).toEqual({ minP: 0.05 });
+            expect(parseSetting('stop', '</s>, \\n\\nUser:')).toEqual({
+                stopSequences: ['</s>', '\n\nUser:'],
+            });
+            expect(() => parseSetting('seed', '1.5')).toThrow(InvalidSettingError);
+        });
+
+        it('should reject unknown settings and out-of-range values', () => {
+            expect(() => parseSetting('colour', 'red')).toThrow(InvalidSettingError);
+            expect(() => parseSetting('temperature', '5')).toThrow(InvalidSettingError);
+        });
+    });
+});
@@ -0,0 +1,173 @@
+import {
+    budgetContext,
+    IMAGE_TOKEN_ESTIMATE,
+    withoutImages,
+} from '../../../src/conversation/budget';
+import { BaseProvider, ChatResponse } from '../../../src/providers/base';
+import { ContextFile } from '../../../src/files/context';
+import { Message } from '../../../src/config/types';
+
+/**
+ * 글자 수를 토큰 수로 세는 테스트용 프로바이더
+ */
+class CharProvider extends BaseProvider {
+    readonly name = 'chars';
+
+    constructor(private contextWindow: number) {
+        super();
+    }
+
+    async chat(): Promise<ChatResponse> {
+        return { text: '' };
+    }
+
+    async stream(): Promise<ChatResponse> {
+        return { text: '' };
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return text.length;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return true;
+    }
+
+    async getContextWindow(): Promise<number> {
+        return this.contextWindow;
+    }
+}
+
+function file(path: string, size: number): ContextFile {
+    return { path, content: 'f'.repeat(size), addedAt: new Date() };
+}
+
+function conversation(turns: number, size: number): Message[] {
+    const messages: Message[] = [];
+    for (let i = 0; i < turns; i++) {
+        messages.push({ role: 'user', content: `${i}`.padEnd(size, 'u') });
+        messages.push({ role: 'assistant', content: `${i}`.padEnd(size, 'a') });
+    }
+    return messages;
+}
+
+describe('Context Budget', () => {
+    it('should include everything when it fits', async () => {
+        const result = await budgetContext(
+            new CharProvider(10000),
+            {
+                systemPrompt: 'system',
+                projectContext: 'project',
+                files: [file('a.ts', 10)],
+                messages: conversation(3, 10),
+            },
+            { outputReserve: 100 }
+        );
+
+        expect(result.messages).toHaveLength(6);
+        expect(result.droppedFiles).toEqual([]);
+        expect(result.systemPrompt).toContain('project');
+        expect(result.systemPrompt).toContain('a.ts');
+        expect(result.overBudget).toBe(false);
+    });
+
+    it('should drop whole old turns instead of cutting text', async () => {
+        const messages = conversation(5, 50);
+
+        const result = await budgetContext(
+            new CharProvider(400),
+            { systemPrompt: 'system', messages },
+            { outputReserve: 100 }
+        );
+
+        expect(result.droppedMessages).toBeGreaterThan(0);
+        expect(result.droppedMessages % 2).toBe(0);
+        expect(result.messages).toEqual(messages.slice(result.droppedMessages));
+    });
+
+    it('should always keep the current question', async () => {
+        const messages = conversation(1, 500);
+
+        const result = await budgetContext(
+            new CharProvider(300),
+            { systemPrompt: 'system', messages },
+            { outputReserve: 100 }
+        );
+
+        expect(result.messages).toEqual(messages);
+        expect(result.overBudget).toBe(true);
+    });
+
+    it('should drop older files before newer ones and keep recent turns first', async () => {
+        const result = await budgetContext(
+            new CharProvider(900),
+            {
+                systemPrompt: 'system',
+                files: [file('old.ts', 200), file('new.ts', 200)],
+                messages: conversation(2, 100),
+            },
+            { outputReserve: 100, priorityTurns: 1 }
+        );
+
+        expect(result.droppedFiles).toEqual(['old.ts']);
+        expect(result.systemPrompt).toContain('new.ts');
+        expect(result.messages).toHaveLength(4);
+    });
+
+    it('should report per-item usage', async () => {
+        const result = await budgetContext(
+            new CharProvider(10000),
+            { systemPrompt: 'system', messages: [{ role: 'user', content: 'hello' }] },
+            { outputReserve: 500 }
+        );
+
+        expect(result.usage).toMatchObject({
+            contextWindow: 10000,
+            outputReserve: 500,
+            system: 6,
+            history: 5,
+        });
+    });
+
+    it('should not count the same messages and files again', async () => {
+        const provider = new CharProvider(10000);
+        const countTokens = jest.spyOn(provider, 'countTokens');
+        const messages = conversation(3, 10);
+        const input = { systemPrompt: 'system', files: [file('a.ts', 10)], messages };
+
+        await budgetContext(provider, input, { outputReserve: 100 });
+        const firstCalls = countTokens.mock.calls.length;
+        const second = await budgetContext(provider, input, { outputReserve: 100 });
+
+        // 두 번째 요청은 시스템 프롬프트만 다시 셈
+        expect(countTokens.mock.calls.length - firstCalls).toBe(1);
+        expect(second.usage.history).toBe(60);
+        expect(second.usage.files).toBeGreaterThan(0);
+    });
+
+    it('should count attached images', async () => {
+        const image = { mimeType: 'image/png', data: 'AAAA' };
+        const result = await budgetContext(
+            new CharProvider(10000),
+            { systemPrompt: '', messages: [{ role: 'user', content: 'hello', images: [image] }] },
+            { outputReserve: 0 }
+        );
+
+        expect(result.usage.history).toBe(5 + IMAGE_TOKEN_ESTIMATE);
+    });
+
+    it('should replace images with a placeholder after the turn', () => {
+        const message: Message = {
+            role: 'user',
+            content: '이 화면 봐줘',
+            images: [{ mimeType: 'image/png', data: 'AAAA' }],
+        };
+
+        expect(withoutImages(message)).toEqual({
+            role: 'user',
+            content: '이 화면 봐줘\n\n[이미지 1개 첨부됨]',
+        });
+        const plain: Message = { role: 'user', content: 'hi' };
+        expect(withoutImages(plain)).toBe(plain);
+    });
+});
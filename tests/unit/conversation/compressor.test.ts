@@ -0,0 +1,153 @@
+import {
+    compressMessages,
+    countMessageTokens,
+    shouldCompress,
+    splitTurns,
+    SUMMARY_PREFIX,
+    TOKEN_COUNT_CONCURRENCY,
+} from '../../../src/conversation/compressor';
+import { BaseProvider, ChatResponse, StreamChunk } from '../../../src/providers/base';
+import { Message } from '../../../src/config/types';
+
+/**
+ * 요약 요청을 기록하고 고정된 요약을 돌려주는 테스트용 프로바이더
+ */
+class SummaryProvider extends BaseProvider {
+    readonly name = 'summary';
+    requests: { messages: Message[]; systemPrompt?: string }[] = [];
+
+    constructor(private contextWindow = 8192) {
+        super();
+    }
+
+    async chat(messages: Message[], systemPrompt?: string): Promise<ChatResponse> {
+        this.requests.push({ messages, systemPrompt });
+        return { text: '## 목표\n테스트' };
+    }
+
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        _onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatResponse> {
+        return this.chat(messages, systemPrompt);
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return text.length;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return true;
+    }
+
+    async getContextWindow(): Promise<number> {
+        return this.contextWindow;
+    }
+}
+
+function conversation(turns: number): Message[] {
+    const messages: Message[] = [];
+    for (let i = 0; i < turns; i++) {
+        messages.push({ role: 'user', content: `질문 ${i}` });
+        messages.push({ role: 'assistant', content: `답변 ${i}` });
+    }
+    return messages;
+}
+
+describe('Conversation Compressor', () => {
+    describe('splitTurns', () => {
+        it('should keep tool calls and results in the same turn', () => {
+            const turns = splitTurns([
+                { role: 'user', content: '시간?' },
+                { role: 'assistant', content: '', toolCalls: [{ name: 'get_time', arguments: {} }] },
+                { role: 'function', content: '{}', name: 'get_time' },
+                { role: 'assistant', content: '오후입니다' },
+                { role: 'user', content: '고마워' },
+            ]);
+
+            expect(turns).toHaveLength(2);
+            expect(turns[0]).toHaveLength(4);
+        });
+    });
+
+    describe('compressMessages', () => {
+        it('should summarize older turns and keep recent ones verbatim', async () => {
+            const provider = new SummaryProvider();
+            const messages = conversation(5);
+
+            const result = await compressMessages(provider, messages, { keepTurns: 2 });
+
+            expect(result.summarizedCount).toBe(6);
+            expect(result.messages).toHaveLength(6);
+            expect(result.messages[0].role).toBe('user');
+            expect(result.messages[0].content).toContain(SUMMARY_PREFIX);
+            expect(result.messages[1].role).toBe('assistant');
+            expect(result.messages.slice(2)).toEqual(messages.slice(6));
+
+            const request = provider.requests[0];
+            expect(request.systemPrompt).toContain('요약');
+            expect(request.messages[0].content).toContain('질문 0');
+            expect(request.messages[0].content).not.toContain('질문 3');
+        });
+
+        it('should leave short conversations unchanged', async () => {
+            const provider = new SummaryProvider();
+            const messages = conversation(2);
+
+            const result = await compressMessages(provider, messages, { keepTurns: 4 });
+
+            expect(result.summarizedCount).toBe(0);
+            expect(result.messages).toBe(messages);
+            expect(provider.requests).toHaveLength(0);
+        });
+
+        it('should report token counts before and after', async () => {
+            const messages = conversation(10).map((m) => ({ ...m, content: m.content.repeat(50) }));
+
+            const result = await compressMessages(new SummaryProvider(), messages, { keepTurns: 1 });
+
+            expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+        });
+    });
+
+    describe('countMessageTokens', () => {
+        it('should limit concurrent token count requests', async () => {
+            const provider = new SummaryProvider();
+            let inFlight = 0;
+            let maxInFlight = 0;
+            jest.spyOn(provider, 'countTokens').mockImplementation(async (text) => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                inFlight--;
+                return text.length;
+            });
+            const messages = conversation(10);
+
+            const tokens = await countMessageTokens(provider, messages, 'system');
+
+            const expected = messages.reduce((sum, m) => sum + m.content.length, 'system'.length);
+            expect(tokens).toBe(expected);
+            expect(provider.countTokens).toHaveBeenCalledTimes(21);
+            expect(maxInFlight).toBe(TOKEN_COUNT_CONCURRENCY);
+        });
+    });
+
+    describe('shouldCompress', () => {
+        it('should trigger near the context window threshold', async () => {
+            const messages = [{ role: 'user' as const, content: 'x'.repeat(90) }];
+
+            expect(await shouldCompress(new SummaryProvider(100), messages, undefined, 0.8)).toBe(true);
+            expect(await shouldCompress(new SummaryProvider(1000), messages, undefined, 0.8)).toBe(
+                false
+            );
+        });
+
+        it('should be disabled with a zero threshold', async () => {
+            const messages = [{ role: 'user' as const, content: 'x'.repeat(90) }];
+
+            expect(await shouldCompress(new SummaryProvider(10), messages, undefined, 0)).toBe(false);
+        });
+    });
+});
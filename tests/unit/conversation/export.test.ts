@@ -0,0 +1,67 @@
+import { exportSession, importSession } from '../../../src/conversation/export';
+import { Session } from '../../../src/config/types';
+
+const session: Session = {
+    id: 'session-1',
+    name: '파서 디버깅',
+    messages: [
+        { role: 'user', content: '<script> 태그가 왜 깨지나요?' },
+        {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ name: 'read_file', arguments: { path: 'src/parser.ts' } }],
+        },
+        { role: 'function', name: 'read_file', content: 'export function parse() {}' },
+        { role: 'assistant', content: '이스케이프가 빠졌습니다.' },
+    ],
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-02T00:00:00.000Z'),
+    provider: 'gemini',
+};
+
+describe('exportSession', () => {
+    it('should export markdown with role headings and tool calls', () => {
+        const markdown = exportSession(session, 'md');
+
+        expect(markdown).toContain('# 파서 디버깅');
+        expect(markdown).toContain('- 마지막 수정: 2025-01-02T00:00:00.000Z');
+        expect(markdown).toContain('### 👤 사용자\n\n<script> 태그가 왜 깨지나요?');
+        expect(markdown).toContain('> 도구 호출: `read_file` {"path":"src/parser.ts"}');
+        expect(markdown).toContain(
+            '### 🔧 도구 결과 (read_file)\n\n```\nexport function parse() {}\n```'
+        );
+    });
+
+    it('should escape message contents in html', () => {
+        const html = exportSession(session, 'html');
+
+        expect(html).toContain('<title>파서 디버깅</title>');
+        expect(html).toContain('<pre>&lt;script&gt; 태그가 왜 깨지나요?</pre>');
+        expect(html).not.toContain('<script>');
+    });
+});
+
+describe('importSession', () => {
+    it('should import an exported json session with a new id', () => {
+        const imported = importSession(exportSession(session, 'json'));
+
+        expect(imported.id).not.toBe(session.id);
+        expect(imported.name).toBe(session.name);
+        expect(imported.messages).toHaveLength(4);
+        expect(imported.createdAt).toEqual(session.createdAt);
+    });
+
+    it('should reject files that are not exported sessions', () => {
+        expect(() => importSession('# 파서 디버깅')).toThrow('올바른 JSON이 아닙니다');
+        expect(() => importSession('{"provider":"gemini"}')).toThrow('messages 배열');
+        expect(() =>
+            importSession('{"provider":"gemini","messages":[{"role":"robot","content":""}]}')
+        ).toThrow('0번째 메시지');
+        expect(() =>
+            importSession('{"provider":"gemini","messages":[{"role":"toString","content":""}]}')
+        ).toThrow('0번째 메시지');
+        expect(() => importSession('{"provider":"unknown","messages":[]}')).toThrow(
+            '알 수 없는 프로바이더'
+        );
+    });
+});
@@ -5,8 +5,12 @@ import {
     listSessions,
     deleteSession,
     findSessionByName,
+    findSession,
+    getRecentSession,
     generateSessionId,
     getSessionPath,
+    searchSessions,
+    renameSession,
 } from '../../../src/conversation/persistence';
 import { Message, ProviderType } from '../../../src/config/types';
 import fs from 'fs/promises';
@@ -287,4 +291,133 @@ describe('Session Persistence', () => {
             expect(sessionPath).toContain('test-123.json');
         });
     });
+
+    describe('getRecentSession', () => {
+        const sessionA = {
+            id: 'a',
+            messages: [],
+            provider: 'gemini' as ProviderType,
+            projectDir: '/repo/a',
+            createdAt: new Date('2024-01-01').toISOString(),
+            updatedAt: new Date('2024-01-02').toISOString(),
+        };
+        const sessionB = {
+            id: 'b',
+            messages: [],
+            provider: 'llamacpp' as ProviderType,
+            projectDir: '/repo/b',
+            createdAt: new Date('2024-01-03').toISOString(),
+            updatedAt: new Date('2024-01-04').toISOString(),
+        };
+
+        beforeEach(() => {
+            mockFs.readdir.mockResolvedValue(['a.json', 'b.json'] as any);
+            mockFs.readFile.mockImplementation((filePath: any) =>
+                Promise.resolve(
+                    JSON.stringify(filePath.includes('a.json') ? sessionA : sessionB)
+                )
+            );
+        });
+
+        it('should return the newest session overall', async () => {
+            const session = await getRecentSession();
+
+            expect(session?.id).toBe('b');
+        });
+
+        it('should scope to the given project directory', async () => {
+            const session = await getRecentSession('/repo/a');
+
+            expect(session?.id).toBe('a');
+        });
+
+        it('should return null when the project has no sessions', async () => {
+            const session = await getRecentSession('/repo/c');
+
+            expect(session).toBeNull();
+        });
+    });
+
+    describe('findSession', () => {
+        it('should fall back to ID when no name matches', async () => {
+            const mockSession = {
+                id: 'session-id',
+                messages: [],
+                provider: 'gemini' as ProviderType,
+                createdAt: new Date().toISOString(),
+                updatedAt: new Date().toISOString(),
+            };
+            mockFs.readdir.mockResolvedValue(['session-id.json'] as any);
+            mockFs.readFile.mockResolvedValue(JSON.stringify(mockSession));
+
+            const session = await findSession('session-id');
+
+            expect(session?.id).toBe('session-id');
+        });
+    });
+
+    describe('searchSessions', () => {
+        it('should search message contents case-insensitively', async () => {
+            const mockSession = {
+                id: 'session1',
+                name: 'debugging',
+                messages: [
+                    { role: 'user', content: 'Why does the Parser fail?' },
+                    { role: 'assistant', content: 'The parser skips quoted paths.' },
+                    { role: 'user', content: 'Thanks' },
+                ],
+                provider: 'gemini' as ProviderType,
+                createdAt: new Date().toISOString(),
+                updatedAt: new Date().toISOString(),
+            };
+            mockFs.readdir.mockResolvedValue(['session1.json'] as any);
+            mockFs.readFile.mockResolvedValue(JSON.stringify(mockSession));
+
+            const results = await searchSessions('parser');
+
+            expect(results).toHaveLength(1);
+            expect(results[0].matches.map((match) => [match.index, match.role])).toEqual([
+                [0, 'user'],
+                [1, 'assistant'],
+            ]);
+            expect(results[0].matches[1].snippet).toBe('The parser skips quoted paths.');
+            expect(await searchSessions('DEBUG')).toHaveLength(1);
+            expect(await searchSessions('nothing')).toEqual([]);
+        });
+    });
+
+    describe('renameSession', () => {
+        it('should rename and save the session', async () => {
+            const mockSession = {
+                id: 'session-id',
+                name: 'old',
+                messages: [],
+                provider: 'gemini' as ProviderType,
+                createdAt: new Date().toISOString(),
+                updatedAt: new Date().toISOString(),
+            };
+            mockFs.readdir.mockResolvedValue(['session-id.json'] as any);
+            mockFs.readFile.mockResolvedValue(JSON.stringify(mockSession));
+            mockFs.mkdir.mockResolvedValue(undefined);
+            mockFs.writeFile.mockResolvedValue();
+
+            const session = await renameSession('old', 'new');
+
+            expect(session?.name).toBe('new');
+            expect(mockFs.writeFile).toHaveBeenCalledWith(
+                expect.stringContaining('session-id.json'),
+                expect.stringContaining('"name": "new"'),
+                'utf-8'
+            );
+        });
+
+        it('should return null when the session does not exist', async () => {
+            mockFs.readdir.mockResolvedValue([] as any);
+            mockFs.readFile.mockRejectedValue(
+                Object.assign(new Error('missing'), { code: 'ENOENT' })
+            );
+
+            expect(await renameSession('missing', 'new')).toBeNull();
+        });
+    });
 });
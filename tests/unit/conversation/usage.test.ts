@@ -0,0 +1,97 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    appendUsage,
+    calculateCost,
+    parseSince,
+    readUsage,
+    summarizeUsage,
+    totalUsage,
+    UsageRecord,
+} from '../../../src/conversation/usage';
+
+const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+    timestamp: '2025-01-10T00:00:00.000Z',
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    project: '/work/a',
+    streaming: true,
+    tokens: { prompt: 1000, completion: 500, total: 1500 },
+    ...overrides,
+});
+
+const pricing = {
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    llamacpp: { input: 0, output: 0 },
+};
+
+describe('usage ledger', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feelfree-usage-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should append records and read them back filtered by time', async () => {
+        const filePath = path.join(dir, 'nested', 'usage.jsonl');
+        await appendUsage(record({ timestamp: '2025-01-01T00:00:00.000Z' }), filePath);
+        await appendUsage(record({ timestamp: '2025-01-10T00:00:00.000Z' }), filePath);
+        // 쓰다가 중단된 줄은 건너뜀
+        await fs.appendFile(filePath, '{"timestamp":');
+
+        expect(await readUsage(undefined, filePath)).toHaveLength(2);
+        expect(await readUsage(new Date('2025-01-05'), filePath)).toEqual([record()]);
+        expect(await readUsage(undefined, path.join(dir, 'missing.jsonl'))).toEqual([]);
+    });
+});
+
+describe('parseSince', () => {
+    const now = Date.parse('2025-01-10T00:00:00.000Z');
+
+    it('should parse durations and dates', () => {
+        expect(parseSince('7d', now).toISOString()).toBe('2025-01-03T00:00:00.000Z');
+        expect(parseSince('24h', now).toISOString()).toBe('2025-01-09T00:00:00.000Z');
+        expect(parseSince('2w', now).toISOString()).toBe('2024-12-27T00:00:00.000Z');
+        expect(parseSince('2025-01-01T00:00:00Z', now).toISOString()).toBe(
+            '2025-01-01T00:00:00.000Z'
+        );
+        expect(() => parseSince('last week', now)).toThrow('기간 형식');
+    });
+});
+
+describe('usage summary', () => {
+    it('should price by model name and fall back to the provider name', () => {
+        expect(calculateCost(record(), pricing)).toBeCloseTo(0.00155);
+        expect(calculateCost(record({ provider: 'llamacpp', model: undefined }), pricing)).toBe(0);
+        expect(calculateCost(record({ model: 'unknown' }), pricing)).toBeUndefined();
+    });
+
+    it('should group by key and count unpriced requests', () => {
+        const records = [
+            record(),
+            record({ project: '/work/b' }),
+            record({ model: 'unknown', tokens: { prompt: 10, completion: 10, total: 20 } }),
+        ];
+
+        const byModel = summarizeUsage(records, 'model', pricing);
+        expect(byModel.map((row) => [row.key, row.requests, row.total])).toEqual([
+            ['gemini-2.5-flash', 2, 3000],
+            ['unknown', 1, 20],
+        ]);
+        expect(byModel[1].cost).toBeUndefined();
+
+        expect(summarizeUsage(records, 'project', pricing).map((row) => row.key)).toEqual([
+            '/work/a',
+            '/work/b',
+        ]);
+
+        const total = totalUsage(records, pricing);
+        expect(total).toMatchObject({ requests: 3, total: 3020, unpriced: 1 });
+        expect(total.cost).toBeCloseTo(0.0031);
+    });
+});
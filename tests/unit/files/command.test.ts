@@ -1,5 +1,6 @@
 import {
     checkCommandSafety,
+    executeCommand,
     formatCommandForContext,
     summarizeCommandResult,
     CommandResult,
@@ -177,6 +178,23 @@ describe('Command Execution', () => {
             expect(formatted).toContain('Errors:');
             expect(formatted).toContain('Deprecation warning');
         });
+
+        it('should keep only the end of long output', () => {
+            const result: CommandResult = {
+                command: 'npm run build',
+                stdout: `${'x'.repeat(500)}마지막 줄`,
+                stderr: 'error TS2304',
+                exitCode: 1,
+                success: false,
+            };
+
+            const formatted = formatCommandForContext(result, 100);
+
+            expect(formatted).toContain('(앞부분 417자 생략)');
+            expect(formatted).toContain('마지막 줄');
+            expect(formatted).toContain('error TS2304');
+            expect(formatted.length).toBeLessThan(250);
+        });
     });
 
     describe('summarizeCommandResult', () => {
@@ -228,4 +246,39 @@ describe('Command Execution', () => {
             expect(summary).not.toContain('줄 에러');
         });
     });
+
+    describe('executeCommand', () => {
+        it('should stream stdout and stderr while buffering the result', async () => {
+            const chunks: Array<{ data: string; stream: string }> = [];
+
+            const result = await executeCommand('echo out; echo err 1>&2', {
+                onOutput: (data, stream) => chunks.push({ data, stream }),
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.stdout).toBe('out');
+            expect(result.stderr).toBe('err');
+            expect(chunks).toContainEqual({ data: 'out\n', stream: 'stdout' });
+            expect(chunks).toContainEqual({ data: 'err\n', stream: 'stderr' });
+        });
+
+        it('should mark commands stopped by the abort signal', async () => {
+            const controller = new AbortController();
+            const pending = executeCommand('sleep 2', { signal: controller.signal });
+            controller.abort();
+
+            const result = await pending;
+
+            expect(result.success).toBe(false);
+            expect(result.stderr).toContain('중단');
+        });
+
+        it('should report output limits separately from timeouts', async () => {
+            const result = await executeCommand('yes | head -c 4096', { maxBuffer: 100 });
+
+            expect(result.success).toBe(false);
+            expect(result.stderr).toContain('출력이 100바이트를 넘어 종료됨');
+            expect(result.stderr).not.toContain('시간 초과');
+        });
+    });
 });
@@ -1,4 +1,4 @@
-import { readFile, readDirectory, FileReadResult } from '../../../src/files/reader';
+import { readFile, readDirectory, MAX_IMAGE_SIZE } from '../../../src/files/reader';
 import fs from 'fs/promises';
 
 jest.mock('fs/promises');
@@ -34,6 +34,13 @@ describe('File Reader', () => {
             expect(result.content).toBe('');
         });
 
+        it('should reject images over the size limit without reading them', async () => {
+            mockFs.stat.mockResolvedValue({ size: MAX_IMAGE_SIZE + 1, isDirectory: () => false } as any);
+
+            await expect(readFile('huge.png')).rejects.toThrow('이미지 파일이 너무 큽니다');
+            expect(mockFs.readFile).not.toHaveBeenCalled();
+        });
+
         it('should handle read errors gracefully', async () => {
             const error = new Error('Permission denied');
             mockFs.readFile.mockRejectedValue(error);
@@ -0,0 +1,167 @@
+import { AnthropicProvider } from '../../../src/providers/anthropic';
+import { ServerError } from '../../../src/providers/errors';
+import { Message } from '../../../src/config/types';
+import { sse, sseEvent, useMockServer } from '../../helpers/mock-server';
+
+describe('AnthropicProvider', () => {
+    const server = useMockServer();
+
+    const createProvider = () =>
+        new AnthropicProvider({ apiKey: 'test-key', endpoint: server.url, model: 'claude-test' });
+
+    it('should send the system prompt as a native field with auth headers', async () => {
+        server.handler = (_req, res) =>
+            res.end(
+                JSON.stringify({
+                    content: [{ type: 'text', text: '안녕하세요' }],
+                    usage: { input_tokens: 10, output_tokens: 5 },
+                })
+            );
+
+        const response = await createProvider().chat(
+            [{ role: 'user', content: 'hi' }],
+            '시스템 프롬프트'
+        );
+
+        expect(response.text).toBe('안녕하세요');
+        expect(response.tokensUsed).toEqual({ prompt: 10, completion: 5, total: 15 });
+
+        const [request] = server.requests;
+        expect(request.url).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('test-key');
+        expect(request.headers['anthropic-version']).toBeDefined();
+        expect(request.body.system).toBe('시스템 프롬프트');
+        expect(request.body.model).toBe('claude-test');
+        expect(request.body.messages).toEqual([
+            { role: 'user', content: [{ type: 'text', text: 'hi' }] },
+        ]);
+    });
+
+    it('should parse tool_use blocks and send tool results back', async () => {
+        server.handler = (_req, res) =>
+            res.end(
+                JSON.stringify({
+                    content: [
+                        { type: 'text', text: '확인해볼게요' },
+                        { type: 'tool_use', id: 'toolu_1', name: 'get_time', input: {} },
+                    ],
+                })
+            );
+        const provider = createProvider();
+
+        const response = await provider.chat([{ role: 'user', content: '몇 시야?' }]);
+
+        expect(response.toolCalls).toEqual([{ id: 'toolu_1', name: 'get_time', arguments: {} }]);
+
+        const history: Message[] = [
+            { role: 'user', content: '몇 시야?' },
+            { role: 'assistant', content: '', toolCalls: response.toolCalls },
+            { role: 'function', name: 'get_time', toolCallId: 'toolu_1', content: '{"time":"12:00"}' },
+        ];
+        await provider.chat(history);
+
+        expect(server.requests[1].body.messages[1]).toEqual({
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_time', input: {} }],
+        });
+        expect(server.requests[1].body.messages[2]).toEqual({
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"time":"12:00"}' }],
+        });
+    });
+
+    it('should parse SSE events including split lines and usage', async () => {
+        const events = [
+            { type: 'message_start', message: { usage: { input_tokens: 7 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '안녕' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '하세요' } },
+            {
+                type: 'content_block_start',
+                index: 1,
+                content_block: { type: 'tool_use', id: 'toolu_2', name: 'read_file', input: {} },
+            },
+            {
+                type: 'content_block_delta',
+                index: 1,
+                delta: { type: 'input_json_delta', partial_json: '{"path":' },
+            },
+            {
+                type: 'content_block_delta',
+                index: 1,
+                delta: { type: 'input_json_delta', partial_json: '"a.ts"}' },
+            },
+            { type: 'message_delta', usage: { output_tokens: 3 } },
+            { type: 'message_stop' },
+        ];
+        const body = events.map((event) => sseEvent(event, event.type)).join('');
+        server.handler = (_req, res) => sse(body, [50])(res);
+        const chunks: string[] = [];
+
+        const response = await createProvider().stream(
+            [{ role: 'user', content: 'hi' }],
+            undefined,
+            (chunk) => {
+                if (!chunk.done) {
+                    chunks.push(chunk.text);
+                }
+            }
+        );
+
+        expect(server.requests[0].body.stream).toBe(true);
+        expect(chunks).toEqual(['안녕', '하세요']);
+        expect(response.text).toBe('안녕하세요');
+        expect(response.toolCalls).toEqual([
+            { id: 'toolu_2', name: 'read_file', arguments: { path: 'a.ts' } },
+        ]);
+        expect(response.tokensUsed).toEqual({ prompt: 7, completion: 3, total: 10 });
+    });
+
+    it('should reject on in-stream error events', async () => {
+        server.handler = (_req, res) => {
+            const event = { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } };
+            res.end(sseEvent(event, 'error'));
+        };
+
+        const result = createProvider().stream(
+            [{ role: 'user', content: 'hi' }],
+            undefined,
+            () => undefined
+        );
+
+        await expect(result).rejects.toThrow('Overloaded');
+        await expect(result).rejects.toBeInstanceOf(ServerError);
+    });
+
+    it('should reject on error events that are not JSON', async () => {
+        server.handler = (_req, res) => res.end(sseEvent('upstream failure', 'error'));
+
+        await expect(
+            createProvider().stream([{ role: 'user', content: 'hi' }], undefined, () => undefined)
+        ).rejects.toThrow('upstream failure');
+    });
+
+    it('should remove the abort listener once the stream finishes', async () => {
+        server.handler = (_req, res) =>
+            res.end(sseEvent({ type: 'message_stop' }, 'message_stop'));
+        const controller = new AbortController();
+        const remove = jest.spyOn(controller.signal, 'removeEventListener');
+
+        await createProvider().stream(
+            [{ role: 'user', content: 'hi' }],
+            undefined,
+            () => undefined,
+            undefined,
+            controller.signal
+        );
+
+        expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    it('should count tokens with the count_tokens endpoint', async () => {
+        server.handler = (_req, res) => res.end(JSON.stringify({ input_tokens: 42 }));
+
+        expect(await createProvider().countTokens('hello')).toBe(42);
+        expect(server.requests[0].url).toBe('/v1/messages/count_tokens');
+    });
+});
@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { BaseProvider, ChatResponse, StreamChunk } from '../../../src/providers/base';
+import { CachedProvider, ResponseCache } from '../../../src/providers/cache';
+import { Message } from '../../../src/config/types';
+
+/**
+ * 호출 횟수를 세고 매번 다른 응답을 돌려주는 프로바이더
+ */
+class CountingProvider extends BaseProvider {
+    readonly name = 'counting';
+    calls = 0;
+
+    async chat(_messages: Message[]): Promise<ChatResponse> {
+        this.calls++;
+        return { text: `응답 ${this.calls}`, reasoning: '생각' };
+    }
+
+    async stream(
+        _messages: Message[],
+        _systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatResponse> {
+        const response = await this.chat(_messages);
+        onChunk({ text: response.text, done: false });
+        onChunk({ text: '', done: true });
+        return response;
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return text.length;
+    }
+
+    async getContextWindow(): Promise<number> {
+        return 4096;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return true;
+    }
+}
+
+const messages: Message[] = [{ role: 'user', content: 'hi', timestamp: new Date() }];
+
+describe('CachedProvider', () => {
+    let dir: string;
+    let now: number;
+    let inner: CountingProvider;
+
+    const createCache = (maxSize?: number) =>
+        new ResponseCache({ dir, ttl: 1000, maxSize, now: () => now });
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'feelfree-cache-'));
+        now = Date.now();
+        inner = new CountingProvider();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should return the cached response for the same request', async () => {
+        const provider = new CachedProvider(inner, createCache(), { model: 'a', temperature: 0.2 });
+
+        await provider.chat(messages, 'system');
+        // 타임스탬프는 키에 포함되지 않음
+        const second = await provider.chat([{ role: 'user', content: 'hi' }], 'system');
+
+        expect(second.text).toBe('응답 1');
+        expect(inner.calls).toBe(1);
+    });
+
+    it('should miss when settings, system prompt or messages differ', async () => {
+        const cache = createCache();
+        await new CachedProvider(inner, cache, { model: 'a', temperature: 0.2 }).chat(messages);
+
+        await new CachedProvider(inner, cache, { model: 'a', temperature: 0.7 }).chat(messages);
+        await new CachedProvider(inner, cache, { model: 'b', temperature: 0.2 }).chat(messages);
+        await new CachedProvider(inner, cache, { model: 'a', temperature: 0.2 }).chat(
+            messages,
+            'other'
+        );
+        // API 키는 키에 포함되지 않음
+        await new CachedProvider(inner, cache, {
+            model: 'a',
+            temperature: 0.2,
+            apiKey: 'secret',
+        }).chat(messages);
+
+        expect(inner.calls).toBe(4);
+    });
+
+    it('should expire entries after the TTL', async () => {
+        const provider = new CachedProvider(inner, createCache(), { model: 'a' });
+
+        await provider.chat(messages);
+        now += 1001;
+        const response = await provider.chat(messages);
+
+        expect(response.text).toBe('응답 2');
+        expect(inner.calls).toBe(2);
+    });
+
+    it('should evict the oldest entries when over the size limit', async () => {
+        const cache = createCache(200);
+        for (const content of ['one', 'two', 'three']) {
+            now += 10;
+            await cache.set(content, { text: content.repeat(20) });
+        }
+
+        const stats = await cache.stats();
+        expect(stats.size).toBeLessThanOrEqual(200);
+        expect(await cache.get('one')).toBeNull();
+        expect(await cache.get('three')).toEqual({ text: 'three'.repeat(20) });
+    });
+
+    it('should replay cached reasoning and text as stream chunks', async () => {
+        const provider = new CachedProvider(inner, createCache(), { model: 'a' });
+        await provider.chat(messages);
+
+        const chunks: StreamChunk[] = [];
+        const response = await provider.stream(messages, undefined, (chunk) => chunks.push(chunk));
+
+        expect(response.text).toBe('응답 1');
+        expect(chunks).toEqual([
+            { text: '생각', done: false, kind: 'reasoning' },
+            { text: '응답 1', done: false },
+            { text: '', done: true },
+        ]);
+        expect(inner.calls).toBe(1);
+    });
+
+    it('should not cache aborted streams', async () => {
+        const provider = new CachedProvider(inner, createCache(), { model: 'a' });
+        const controller = new AbortController();
+        controller.abort();
+
+        await provider.stream(messages, undefined, () => undefined, undefined, controller.signal);
+        await provider.stream(messages, undefined, () => undefined);
+
+        expect(inner.calls).toBe(2);
+    });
+
+    it('should report stats and clear all entries', async () => {
+        const cache = createCache();
+        await cache.set('a', { text: 'a' });
+        await cache.set('b', { text: 'b' });
+
+        expect(await cache.stats()).toMatchObject({ dir, entries: 2 });
+        expect(await cache.clear()).toBe(2);
+        expect((await cache.stats()).entries).toBe(0);
+    });
+});
@@ -0,0 +1,172 @@
+import {
+    AuthError,
+    classifyError,
+    ContextLengthError,
+    NetworkError,
+    parseRetryAfter,
+    ProviderError,
+    RateLimitError,
+    ServerError,
+} from '../../../src/providers/errors';
+import { LlamaCppProvider } from '../../../src/providers/llamacpp';
+import { NoWaitProvider, reply, useMockServer } from '../../helpers/mock-server';
+
+describe('classifyError', () => {
+    it('should read the status and RetryInfo from SDK errors', () => {
+        const error = Object.assign(new Error('[429 Too Many Requests] Resource has been exhausted'), {
+            status: 429,
+            errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '30s' }],
+        });
+
+        const classified = classifyError(error, '[Gemini] 채팅 요청 실패');
+
+        expect(classified).toBeInstanceOf(RateLimitError);
+        expect((classified as RateLimitError).retryAfter).toBe(30000);
+        expect(classified.message).toBe(
+            '[Gemini] 채팅 요청 실패: [429 Too Many Requests] Resource has been exhausted'
+        );
+    });
+
+    it('should classify errors by status code and message', () => {
+        expect(classifyError(Object.assign(new Error('x'), { status: 401 }))).toBeInstanceOf(AuthError);
+        expect(
+            classifyError(Object.assign(new Error('API key not valid'), { status: 400 }))
+        ).toBeInstanceOf(AuthError);
+        expect(
+            classifyError(new Error('the request exceeds the available context size'))
+        ).toBeInstanceOf(ContextLengthError);
+        expect(classifyError(new Error('Overloaded'))).toBeInstanceOf(ServerError);
+        expect(
+            classifyError(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }))
+        ).toBeInstanceOf(NetworkError);
+        expect(classifyError(Object.assign(new Error('bad'), { status: 400 }))).not.toHaveProperty(
+            'retryable',
+            true
+        );
+    });
+
+    it('should return already classified errors unchanged', () => {
+        const error = new ServerError('이미 분류됨', 503);
+        expect(classifyError(error, 'prefix')).toBe(error);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+        const now = Date.parse('2024-01-01T00:00:00Z');
+        expect(parseRetryAfter('2')).toBe(2000);
+        expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('soon')).toBeUndefined();
+        expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+});
+
+describe('BaseProvider retry policy', () => {
+    const server = useMockServer();
+    const success = { choices: [{ message: { content: '안녕하세요' } }] };
+
+    it('should honor Retry-After on rate limits and then succeed', async () => {
+        server.handler = (_req, res, count) =>
+            count === 1
+                ? reply(res, 429, { error: { message: 'slow down' } }, { 'Retry-After': '1' })
+                : reply(res, 200, success);
+        const provider = new NoWaitProvider({ endpoint: server.url });
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(response.text).toBe('안녕하세요');
+        expect(server.requests.length).toBe(2);
+        expect(provider.delays).toEqual([1000]);
+    });
+
+    it('should give up on server errors after the retry limit', async () => {
+        server.handler = (_req, res) => reply(res, 503, { error: 'loading model' });
+        const provider = new NoWaitProvider({ endpoint: server.url });
+
+        const error = await provider.chat([{ role: 'user', content: 'hi' }]).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ServerError);
+        expect(error.message).toContain('loading model');
+        expect(server.requests.length).toBe(3);
+    });
+
+    it('should fail fast on auth and context length errors', async () => {
+        const provider = new NoWaitProvider({ endpoint: server.url });
+
+        server.handler = (_req, res) => reply(res, 401, { error: 'invalid key' });
+        await expect(provider.chat([{ role: 'user', content: 'hi' }])).rejects.toBeInstanceOf(
+            AuthError
+        );
+        expect(server.requests.length).toBe(1);
+
+        server.requests = [];
+        server.handler = (_req, res) =>
+            reply(res, 400, {
+                error: {
+                    message: 'the request exceeds the available context size',
+                    type: 'exceed_context_size_error',
+                },
+            });
+        await expect(provider.chat([{ role: 'user', content: 'hi' }])).rejects.toBeInstanceOf(
+            ContextLengthError
+        );
+        expect(server.requests.length).toBe(1);
+    });
+
+    it('should read the error body of streaming requests before classifying', async () => {
+        server.handler = (_req, res) =>
+            reply(res, 400, {
+                error: {
+                    message: 'the request exceeds the available context size',
+                    type: 'exceed_context_size_error',
+                },
+            });
+        const provider = new NoWaitProvider({ endpoint: server.url });
+
+        const error = await provider
+            .stream([{ role: 'user', content: 'hi' }], undefined, () => undefined)
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(ContextLengthError);
+        expect(error.message).toContain('exceeds the available context size');
+        expect(server.requests.length).toBe(1);
+    });
+
+    it('should notify retries and stop waiting when aborted', async () => {
+        server.handler = (_req, res) =>
+            reply(res, 429, { error: 'slow down' }, { 'Retry-After': '30' });
+        const provider = new LlamaCppProvider({ endpoint: server.url });
+        const controller = new AbortController();
+        // 대기가 시작된 뒤 Ctrl+C
+        const onRetry = jest.fn(() => setTimeout(() => controller.abort(), 20));
+        provider.onRetry = onRetry;
+
+        const started = Date.now();
+        const error = await provider
+            .stream(
+                [{ role: 'user', content: 'hi' }],
+                undefined,
+                () => undefined,
+                undefined,
+                controller.signal
+            )
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(onRetry).toHaveBeenCalledWith(provider, error, 30000, 1);
+        expect(Date.now() - started).toBeLessThan(5000);
+        expect(server.requests.length).toBe(1);
+    });
+
+    it('should not wait for a Retry-After longer than the policy allows', async () => {
+        server.handler = (_req, res) =>
+            reply(res, 429, { error: 'quota' }, { 'Retry-After': '3600' });
+        const provider = new NoWaitProvider({ endpoint: server.url });
+
+        const error = await provider.chat([{ role: 'user', content: 'hi' }]).catch((e) => e);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(server.requests.length).toBe(1);
+    });
+});
@@ -0,0 +1,215 @@
+import { BaseProvider, ChatResponse, StreamChunk } from '../../../src/providers/base';
+import {
+    AllProvidersFailedError,
+    CircuitBreaker,
+    FallbackProvider,
+} from '../../../src/providers/fallback';
+import { Message } from '../../../src/config/types';
+
+/**
+ * 미리 정한 결과(응답 또는 에러)를 순서대로 돌려주는 프로바이더
+ */
+class ScriptedProvider extends BaseProvider {
+    calls = 0;
+    healthy = true;
+
+    constructor(
+        readonly name: string,
+        private script: (string | Error)[],
+        private contextWindow = 4096
+    ) {
+        super();
+    }
+
+    async chat(_messages: Message[]): Promise<ChatResponse> {
+        return { text: this.next() };
+    }
+
+    async stream(
+        _messages: Message[],
+        _systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatResponse> {
+        const step = this.script[Math.min(this.calls, this.script.length - 1)];
+        if (typeof step === 'string') {
+            onChunk({ text: step, done: false });
+            onChunk({ text: '', done: true });
+        } else if (step.message.startsWith('partial')) {
+            // 일부를 출력한 뒤 실패
+            onChunk({ text: '부분', done: false });
+        }
+        return { text: this.next() };
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return text.length;
+    }
+
+    async getContextWindow(): Promise<number> {
+        return this.contextWindow;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return this.healthy;
+    }
+
+    private next(): string {
+        const step = this.script[Math.min(this.calls, this.script.length - 1)];
+        this.calls++;
+        if (step instanceof Error) {
+            throw step;
+        }
+        return step;
+    }
+}
+
+const messages: Message[] = [{ role: 'user', content: 'hi' }];
+const noSleep = async () => undefined;
+
+describe('CircuitBreaker', () => {
+    it('should open after consecutive failures and half-open after the reset timeout', () => {
+        let now = 0;
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, () => now);
+
+        breaker.recordFailure();
+        expect(breaker.state).toBe('closed');
+        breaker.recordFailure();
+        expect(breaker.state).toBe('open');
+
+        now = 1000;
+        expect(breaker.state).toBe('half-open');
+
+        breaker.recordSuccess();
+        expect(breaker.state).toBe('closed');
+    });
+});
+
+describe('FallbackProvider', () => {
+    it('should retry transient errors before answering from the same provider', async () => {
+        const primary = new ScriptedProvider('primary', [new Error('503'), 'ok']);
+        const fallback = new ScriptedProvider('fallback', ['fallback']);
+        const sleep = jest.fn(noSleep);
+        const provider = new FallbackProvider([primary, fallback], { retries: 1, sleep });
+
+        const response = await provider.chat(messages);
+
+        expect(response.text).toBe('ok');
+        expect(primary.calls).toBe(2);
+        expect(fallback.calls).toBe(0);
+        expect(sleep).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail over to the next provider and report which one answered', async () => {
+        const primary = new ScriptedProvider('primary', [new Error('rate limit exceeded')]);
+        const fallback = new ScriptedProvider('fallback', ['fallback']);
+        const onFailover = jest.fn();
+        const provider = new FallbackProvider([primary, fallback], {
+            retries: 1,
+            sleep: noSleep,
+            onFailover,
+        });
+
+        const response = await provider.chat(messages);
+
+        expect(response.text).toBe('fallback');
+        expect(primary.calls).toBe(2);
+        expect(provider.name).toBe('fallback');
+        expect(onFailover).toHaveBeenCalledWith(primary, fallback, expect.any(Error));
+    });
+
+    it('should not fail over on non-transient errors', async () => {
+        const primary = new ScriptedProvider('primary', [new Error('status code 400')]);
+        const fallback = new ScriptedProvider('fallback', ['fallback']);
+        const provider = new FallbackProvider([primary, fallback], { sleep: noSleep });
+
+        await expect(provider.chat(messages)).rejects.toThrow('400');
+        expect(fallback.calls).toBe(0);
+    });
+
+    it('should throw AllProvidersFailedError when every provider fails', async () => {
+        const provider = new FallbackProvider(
+            [
+                new ScriptedProvider('a', [new Error('timeout')]),
+                new ScriptedProvider('b', [new Error('ECONNRESET')]),
+            ],
+            { retries: 0, sleep: noSleep }
+        );
+
+        await expect(provider.chat(messages)).rejects.toBeInstanceOf(AllProvidersFailedError);
+    });
+
+    it('should skip providers with an open circuit until they pass a health check', async () => {
+        const primary = new ScriptedProvider('primary', [new Error('timeout'), 'recovered']);
+        const fallback = new ScriptedProvider('fallback', ['fallback']);
+        let now = 0;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        const provider = new FallbackProvider([primary, fallback], {
+            retries: 0,
+            sleep: noSleep,
+            circuitBreaker: { failureThreshold: 1, resetTimeout: 1000 },
+        });
+
+        try {
+            await provider.chat(messages);
+            expect(primary.calls).toBe(1);
+
+            // 차단 중에는 primary를 시도하지 않음
+            await provider.chat(messages);
+            expect(primary.calls).toBe(1);
+
+            // 차단 시간이 지나도 상태 확인에 실패하면 건너뜀
+            now = 1000;
+            primary.healthy = false;
+            expect((await provider.chat(messages)).text).toBe('fallback');
+            expect(primary.calls).toBe(1);
+
+            now = 2000;
+            primary.healthy = true;
+            expect((await provider.chat(messages)).text).toBe('recovered');
+            expect(provider.name).toBe('primary');
+        } finally {
+            jest.restoreAllMocks();
+        }
+    });
+
+    it('should not fail over a stream once output has started', async () => {
+        const primary = new ScriptedProvider('primary', [new Error('partial: socket hang up')]);
+        const fallback = new ScriptedProvider('fallback', ['fallback']);
+        const provider = new FallbackProvider([primary, fallback], { sleep: noSleep });
+        const chunks: string[] = [];
+
+        await expect(
+            provider.stream(messages, undefined, (chunk) => chunks.push(chunk.text))
+        ).rejects.toThrow('socket hang up');
+        expect(chunks).toEqual(['부분']);
+        expect(primary.calls).toBe(1);
+        expect(fallback.calls).toBe(0);
+    });
+
+    it('should use the smallest context window in the chain', async () => {
+        const provider = new FallbackProvider([
+            new ScriptedProvider('a', ['a'], 8192),
+            new ScriptedProvider('b', ['b'], 2048),
+        ]);
+
+        expect(await provider.getContextWindow()).toBe(2048);
+    });
+
+    it('should skip blocked and failing providers when sizing the context window', async () => {
+        const dead = new ScriptedProvider('dead', [new Error('timeout')], 1024);
+        const failing = new ScriptedProvider('failing', ['failing'], 2048);
+        const healthy = new ScriptedProvider('healthy', ['healthy'], 8192);
+        const deadWindow = jest.spyOn(dead, 'getContextWindow');
+        jest.spyOn(failing, 'getContextWindow').mockRejectedValue(new Error('ECONNREFUSED'));
+        const provider = new FallbackProvider([dead, failing, healthy], {
+            sleep: noSleep,
+            circuitBreaker: { failureThreshold: 1 },
+        });
+
+        // dead의 서킷 브레이커를 연 뒤에는 조회하지 않음
+        await provider.chat(messages);
+
+        expect(await provider.getContextWindow()).toBe(8192);
+        expect(deadWindow).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,168 @@
+import { GeminiProvider, GeminiOptions } from '../../../src/providers/gemini';
+import { json, reply, sseEvent, useMockServer } from '../../helpers/mock-server';
+
+describe('GeminiProvider', () => {
+    const server = useMockServer();
+
+    const success = json({
+        candidates: [{ content: { role: 'model', parts: [{ text: '안녕하세요' }] }, index: 0 }],
+    });
+
+    beforeEach(() => {
+        server.handler = (_req, res) => success(res);
+    });
+
+    const createProvider = (options: Partial<GeminiOptions> = {}) =>
+        new GeminiProvider({
+            apiKey: 'test-key',
+            model: 'gemini-test',
+            endpoint: server.url,
+            ...options,
+        });
+
+    it('should send the system prompt as systemInstruction', async () => {
+        const response = await createProvider().chat([{ role: 'user', content: 'hi' }], '시스템');
+
+        expect(response.text).toBe('안녕하세요');
+        expect(server.requests[0].url).toContain('/models/gemini-test:generateContent');
+        expect(server.requests[0].body.systemInstruction.parts[0].text).toBe('시스템');
+        expect(server.requests[0].body.contents).toEqual([
+            { role: 'user', parts: [{ text: 'hi' }] },
+        ]);
+    });
+
+    it('should pass stop sequences, response MIME type and safety settings', async () => {
+        const provider = createProvider({
+            stopSequences: ['END'],
+            responseMimeType: 'application/json',
+            safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' }],
+        });
+
+        await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        const { body } = server.requests[0];
+        expect(body.generationConfig.stopSequences).toEqual(['END']);
+        expect(body.generationConfig.responseMimeType).toBe('application/json');
+        expect(body.safetySettings).toEqual([
+            { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+        ]);
+    });
+
+    it('should pass penalties, seed and logprobs settings', async () => {
+        const provider = createProvider({ presencePenalty: 0.5, seed: 7, nProbs: 2 });
+
+        await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(server.requests[0].body.generationConfig).toMatchObject({
+            presencePenalty: 0.5,
+            seed: 7,
+            responseLogprobs: true,
+            logprobs: 2,
+        });
+    });
+
+    it('should separate thought parts and request them from thinking models', async () => {
+        server.handler = (_req, res) => {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(
+                JSON.stringify({
+                    candidates: [
+                        {
+                            content: {
+                                role: 'model',
+                                parts: [
+                                    { text: '인사에 답하자.', thought: true },
+                                    { text: '안녕하세요' },
+                                ],
+                            },
+                            index: 0,
+                        },
+                    ],
+                    usageMetadata: {
+                        promptTokenCount: 4,
+                        candidatesTokenCount: 2,
+                        thoughtsTokenCount: 5,
+                        totalTokenCount: 11,
+                    },
+                })
+            );
+        };
+
+        const response = await createProvider({ model: 'gemini-2.5-flash' }).chat([
+            { role: 'user', content: 'hi' },
+        ]);
+
+        expect(server.requests[0].body.generationConfig.thinkingConfig).toEqual({
+            includeThoughts: true,
+        });
+        expect(response.text).toBe('안녕하세요');
+        expect(response.reasoning).toBe('인사에 답하자.');
+        expect(response.tokensUsed).toEqual({ prompt: 4, completion: 7, total: 11, reasoning: 5 });
+    });
+
+    it('should inline the system prompt for models without systemInstruction support', async () => {
+        await createProvider({ model: 'gemma-3-27b-it' }).chat(
+            [{ role: 'user', content: 'hi' }],
+            '시스템'
+        );
+
+        expect(server.requests[0].body.systemInstruction).toBeUndefined();
+        expect(server.requests[0].body.contents[0].parts[0].text).toBe('시스템\n\nhi');
+    });
+
+    it('should fall back to inlining when the model rejects systemInstruction', async () => {
+        server.handler = (_req, res, count) => {
+            if (count === 1) {
+                reply(res, 400, {
+                    error: {
+                        code: 400,
+                        message: 'Developer instruction is not enabled for models/gemini-test',
+                        status: 'INVALID_ARGUMENT',
+                    },
+                });
+                return;
+            }
+            success(res);
+        };
+        const provider = createProvider();
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }], '시스템');
+        await provider.chat([{ role: 'user', content: 'again' }], '시스템');
+
+        expect(response.text).toBe('안녕하세요');
+        expect(server.requests).toHaveLength(3);
+        expect(server.requests[1].body.systemInstruction).toBeUndefined();
+        expect(server.requests[1].body.contents[0].parts[0].text).toBe('시스템\n\nhi');
+        // 이후 요청은 처음부터 인라인으로 전송
+        expect(server.requests[2].body.systemInstruction).toBeUndefined();
+    });
+
+    it('should stop streaming and close the connection when aborted', async () => {
+        // 첫 청크만 보내고 응답을 끝내지 않음
+        server.handler = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(
+                sseEvent({
+                    candidates: [{ content: { role: 'model', parts: [{ text: '안녕' }] }, index: 0 }],
+                })
+            );
+        };
+        const controller = new AbortController();
+        const chunks: string[] = [];
+
+        const response = await createProvider().stream(
+            [{ role: 'user', content: 'hi' }],
+            undefined,
+            (chunk) => {
+                chunks.push(chunk.text);
+                controller.abort();
+            },
+            undefined,
+            controller.signal
+        );
+
+        expect(server.requests[0].url).toContain(':streamGenerateContent');
+        expect(response.text).toBe('안녕');
+        expect(chunks).toEqual(['안녕', '']);
+    });
+});
@@ -0,0 +1,48 @@
+import { JsonSchema, validateJson } from '../../../src/providers/json-schema';
+
+describe('validateJson', () => {
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 1 },
+            age: { type: 'integer', minimum: 0 },
+            tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+            level: { enum: ['low', 'high'] },
+        },
+        required: ['name', 'age'],
+        additionalProperties: false,
+    };
+
+    it('should accept values that match the schema', () => {
+        expect(validateJson({ name: '홍길동', age: 30, tags: ['a'], level: 'low' }, schema)).toEqual(
+            []
+        );
+    });
+
+    it('should report every violation with its path', () => {
+        const errors = validateJson(
+            { name: '', age: 1.5, tags: ['a', 2, 'c'], level: 'mid', extra: true },
+            schema
+        );
+
+        expect(errors).toEqual([
+            '$.name: 1자 이상이어야 합니다',
+            '$.age: integer 타입이어야 합니다',
+            '$.tags: 항목이 2개 이하여야 합니다',
+            '$.tags[1]: string 타입이어야 합니다',
+            '$.level: ["low","high"] 중 하나여야 합니다',
+            '$.extra: 허용되지 않은 항목입니다',
+        ]);
+    });
+
+    it('should check required properties, union types and anyOf', () => {
+        expect(validateJson({}, schema)).toEqual([
+            '$.name: 필수 항목입니다',
+            '$.age: 필수 항목입니다',
+        ]);
+        expect(validateJson(null, { type: ['string', 'null'] })).toEqual([]);
+        expect(validateJson(3, { anyOf: [{ type: 'string' }, { type: 'boolean' }] })).toEqual([
+            '$: anyOf 조건을 하나도 만족하지 않습니다',
+        ]);
+    });
+});
@@ -0,0 +1,326 @@
+import http from 'http';
+import { LlamaCppProvider, FALLBACK_CONTEXT_WINDOW } from '../../../src/providers/llamacpp';
+import {
+    ContextLengthError,
+    StructuredOutputError,
+    UnsupportedFeatureError,
+} from '../../../src/providers/errors';
+import { JsonSchema } from '../../../src/providers/json-schema';
+import { json, routeTo, sse, sseEvent, useMockServer } from '../../helpers/mock-server';
+
+describe('LlamaCppProvider', () => {
+    const server = useMockServer();
+    let routes: Record<string, (res: http.ServerResponse) => void>;
+
+    beforeEach(() => {
+        server.handler = routeTo(() => routes);
+        routes = {
+            '/props': json({
+                default_generation_settings: { n_ctx: 8192 },
+                model_path: '/models/qwen2.5-7b-instruct-q4_k_m.gguf',
+                chat_template: '{% for message in messages %}<|im_start|>{{ message.role }}',
+                modalities: { vision: false },
+            }),
+            '/v1/models': json({ object: 'list', data: [{ id: 'qwen2.5-7b-instruct' }] }),
+            '/v1/chat/completions': json({ choices: [{ message: { content: '안녕하세요' } }] }),
+        };
+    });
+
+    it('should discover the model, n_ctx, chat template and modalities', async () => {
+        const provider = new LlamaCppProvider({ endpoint: server.url });
+
+        const info = await provider.getInfo();
+
+        expect(info).toEqual({
+            model: 'qwen2.5-7b-instruct',
+            contextWindow: 8192,
+            chatTemplate: expect.stringContaining('<|im_start|>'),
+            vision: false,
+            models: ['qwen2.5-7b-instruct'],
+        });
+        expect(await provider.getContextWindow()).toBe(8192);
+        // 한 번 조회한 정보는 재사용
+        expect(server.requests.filter((r) => r.url === '/props')).toHaveLength(1);
+    });
+
+    it('should fall back to the model path and default context on older servers', async () => {
+        routes = { '/props': json({ model_path: '/models/llama-3.2-3b.gguf' }) };
+        const provider = new LlamaCppProvider({ endpoint: server.url });
+
+        const info = await provider.getInfo();
+
+        expect(info.model).toBe('llama-3.2-3b.gguf');
+        expect(info.models).toEqual([]);
+        expect(await provider.getContextWindow()).toBe(FALLBACK_CONTEXT_WINDOW);
+    });
+
+    it('should prefer the configured context window over n_ctx', async () => {
+        const provider = new LlamaCppProvider({ endpoint: server.url, contextWindow: 2048 });
+
+        expect(await provider.getContextWindow()).toBe(2048);
+    });
+
+    it('should reject images for text-only models without calling the chat endpoint', async () => {
+        const provider = new LlamaCppProvider({ endpoint: server.url });
+
+        await expect(
+            provider.chat([
+                {
+                    role: 'user',
+                    content: '뭐가 보여?',
+                    images: [{ mimeType: 'image/png', data: 'aGVsbG8=' }],
+                },
+            ])
+        ).rejects.toBeInstanceOf(UnsupportedFeatureError);
+        expect(server.requests.some((r) => r.url === '/v1/chat/completions')).toBe(false);
+    });
+
+    it('should send images as image_url data URIs to multimodal servers', async () => {
+        routes['/props'] = json({
+            default_generation_settings: { n_ctx: 4096 },
+            modalities: { vision: true },
+        });
+        const provider = new LlamaCppProvider({ endpoint: server.url });
+
+        await provider.chat([
+            {
+                role: 'user',
+                content: '뭐가 보여?',
+                images: [{ mimeType: 'image/png', data: 'aGVsbG8=' }],
+            },
+        ]);
+
+        const chat = server.requests.find((r) => r.url === '/v1/chat/completions');
+        expect(chat?.body.messages[0]).toEqual({
+            role: 'user',
+            content: [
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+                { type: 'text', text: '뭐가 보여?' },
+            ],
+        });
+    });
+
+    it('should not query server info for text-only server.requests', async () => {
+        const provider = new LlamaCppProvider({ endpoint: server.url });
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(response.text).toBe('안녕하세요');
+        expect(server.requests.map((r) => r.url)).toEqual(['/v1/chat/completions']);
+    });
+
+    it('should pass sampling options and return logprobs', async () => {
+        routes['/v1/chat/completions'] = json({
+            choices: [
+                {
+                    message: { content: '네' },
+                    logprobs: {
+                        content: [
+                            {
+                                token: '네',
+                                logprob: -0.1,
+                                top_logprobs: [{ token: '네', logprob: -0.1 }],
+                            },
+                        ],
+                    },
+                },
+            ],
+        });
+        const provider = new LlamaCppProvider({
+            endpoint: server.url,
+            minP: 0.05,
+            repeatPenalty: 1.1,
+            seed: 42,
+            stopSequences: ['</s>'],
+            nProbs: 1,
+        });
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(server.requests[0].body).toMatchObject({
+            min_p: 0.05,
+            repeat_penalty: 1.1,
+            seed: 42,
+            stop: ['</s>'],
+            logprobs: true,
+            top_logprobs: 1,
+        });
+        expect(server.requests[0].body).not.toHaveProperty('presence_penalty');
+        expect(response.logprobs).toEqual([
+            { token: '네', logprob: -0.1, topLogprobs: [{ token: '네', logprob: -0.1 }] },
+        ]);
+    });
+
+    describe('stream', () => {
+        it('should decode events split mid-line and mid-character and report usage', async () => {
+            const body =
+                sseEvent({ choices: [{ delta: { content: '안녕' } }] }) +
+                sseEvent({ choices: [{ delta: { content: '하세요' } }] }) +
+                sseEvent({
+                    choices: [{ delta: {}, finish_reason: 'stop' }],
+                    usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+                }) +
+                'data: [DONE]\n\n';
+            // 첫 이벤트의 '안' 바이트 중간과 두 번째 이벤트 중간에서 자름
+            routes['/v1/chat/completions'] = sse(body, [40, 60]);
+            const provider = new LlamaCppProvider({ endpoint: server.url });
+            const chunks: string[] = [];
+            let doneCount = 0;
+
+            const response = await provider.stream(
+                [{ role: 'user', content: 'hi' }],
+                undefined,
+                (chunk) => (chunk.done ? doneCount++ : chunks.push(chunk.text))
+            );
+
+            expect(chunks).toEqual(['안녕', '하세요']);
+            expect(response.text).toBe('안녕하세요');
+            expect(response.tokensUsed).toEqual({ prompt: 5, completion: 3, total: 8 });
+            expect(doneCount).toBe(1);
+        });
+
+        it('should emit reasoning_content and <think> blocks as reasoning chunks', async () => {
+            routes['/v1/chat/completions'] = sse(
+                sseEvent({ choices: [{ delta: { reasoning_content: '먼저 생각' } }] }) +
+                    sseEvent({ choices: [{ delta: { content: '<think>더 생각</think>' } }] }) +
+                    sseEvent({ choices: [{ delta: { content: '\n\n답변' } }] }) +
+                    'data: [DONE]\n\n',
+                []
+            );
+            const provider = new LlamaCppProvider({ endpoint: server.url });
+            const chunks: { kind?: string; text: string }[] = [];
+
+            const response = await provider.stream(
+                [{ role: 'user', content: 'hi' }],
+                undefined,
+                (chunk) => !chunk.done && chunks.push({ kind: chunk.kind, text: chunk.text })
+            );
+
+            expect(chunks).toEqual([
+                { kind: 'reasoning', text: '먼저 생각' },
+                { kind: 'reasoning', text: '더 생각' },
+                { kind: 'text', text: '답변' },
+            ]);
+            expect(response.text).toBe('답변');
+            expect(response.reasoning).toBe('먼저 생각더 생각');
+        });
+
+        it('should reject on in-stream error events', async () => {
+            routes['/v1/chat/completions'] = sse(
+                sseEvent({ choices: [{ delta: { content: '부분' } }] }) +
+                    sseEvent({
+                        error: {
+                            code: 400,
+                            message: 'the request exceeds the available context size',
+                            type: 'exceed_context_size_error',
+                        },
+                    }),
+                []
+            );
+            const provider = new LlamaCppProvider({ endpoint: server.url });
+
+            await expect(
+                provider.stream([{ role: 'user', content: 'hi' }], undefined, () => undefined)
+            ).rejects.toBeInstanceOf(ContextLengthError);
+        });
+
+        it('should stop on abort and return the text received so far', async () => {
+            routes['/v1/chat/completions'] = (res) => {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(sseEvent({ choices: [{ delta: { content: '첫 줄' } }] }));
+                // 서버는 계속 생성 중 (연결이 끊기면 정리)
+                res.on('close', () => res.end());
+            };
+            const provider = new LlamaCppProvider({ endpoint: server.url });
+            const controller = new AbortController();
+
+            const response = await provider.stream(
+                [{ role: 'user', content: 'hi' }],
+                undefined,
+                (chunk) => {
+                    if (!chunk.done) {
+                        controller.abort();
+                    }
+                },
+                undefined,
+                controller.signal
+            );
+
+            expect(response.text).toBe('첫 줄');
+        });
+    });
+
+    it('should return logprobs from /completion when n_probs is set', async () => {
+        routes['/completion'] = json({
+            content: '네',
+            completion_probabilities: [
+                {
+                    id: 1,
+                    token: '네',
+                    logprob: -0.2,
+                    top_logprobs: [{ id: 1, token: '네', logprob: -0.2 }],
+                },
+            ],
+        });
+        const provider = new LlamaCppProvider({ endpoint: server.url, nProbs: 1 });
+
+        const response = await provider.complete('질문: ');
+
+        expect(server.requests[0].body.n_probs).toBe(1);
+        expect(response.logprobs).toEqual([
+            {
+                token: '네',
+                logprob: -0.2,
+                topLogprobs: [{ id: 1, token: '네', logprob: -0.2 }],
+            },
+        ]);
+    });
+
+    describe('completeJson', () => {
+        const schema: JsonSchema = {
+            type: 'object',
+            properties: { city: { type: 'string' }, population: { type: 'integer' } },
+            required: ['city', 'population'],
+        };
+
+        it('should constrain /completion with the schema and return the parsed object', async () => {
+            routes['/apply-template'] = json({ prompt: '<|im_start|>user\n서울 인구<|im_end|>' });
+            routes['/completion'] = json({
+                content: '{"city": "서울", "population": 9400000}',
+                tokens_evaluated: 20,
+                tokens_predicted: 12,
+            });
+            const provider = new LlamaCppProvider({ endpoint: server.url });
+
+            const result = await provider.completeJson(
+                [{ role: 'user', content: '서울 인구' }],
+                schema
+            );
+
+            expect(result).toEqual({ city: '서울', population: 9400000 });
+            const template = server.requests.find((r) => r.url === '/apply-template');
+            expect(template?.body.messages[0].content).toContain('"population"');
+            const completion = server.requests.find((r) => r.url === '/completion');
+            expect(completion?.body).toMatchObject({
+                prompt: '<|im_start|>user\n서울 인구<|im_end|>',
+                json_schema: schema,
+                stream: false,
+            });
+        });
+
+        it('should reject output that does not match the schema', async () => {
+            routes['/completion'] = json({ content: '{"city": "서울"}' });
+            const provider = new LlamaCppProvider({ endpoint: server.url });
+
+            const result = provider.completeJson([{ role: 'user', content: '서울 인구' }], schema);
+
+            await expect(result).rejects.toBeInstanceOf(StructuredOutputError);
+            await expect(result).rejects.toMatchObject({
+                violations: ['$.population: 필수 항목입니다'],
+            });
+            // /apply-template이 없는 서버는 단순 텍스트 프롬프트로 대신
+            const completion = server.requests.find((r) => r.url === '/completion');
+            expect(completion?.body.prompt).toMatch(/user: 서울 인구\n\nassistant: $/);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { OllamaProvider } from '../../../src/providers/ollama';
+import { useMockServer } from '../../helpers/mock-server';
+
+describe('OllamaProvider', () => {
+    const server = useMockServer();
+
+    it('should chat via /api/chat and report eval counts as usage', async () => {
+        server.handler = (_req, res) => {
+            res.end(
+                JSON.stringify({
+                    message: { role: 'assistant', content: '안녕하세요' },
+                    done: true,
+                    prompt_eval_count: 12,
+                    eval_count: 4,
+                })
+            );
+        };
+        const provider = new OllamaProvider({
+            endpoint: server.url,
+            model: 'llama3.2',
+            contextWindow: 8192,
+        });
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }], 'system');
+
+        expect(response.text).toBe('안녕하세요');
+        expect(response.tokensUsed).toEqual({ prompt: 12, completion: 4, total: 16 });
+        expect(server.requests[0].url).toBe('/api/chat');
+        expect(server.requests[0].body.model).toBe('llama3.2');
+        expect(server.requests[0].body.stream).toBe(false);
+        expect(server.requests[0].body.options.num_ctx).toBe(8192);
+        expect(server.requests[0].body.messages[0]).toEqual({ role: 'system', content: 'system' });
+    });
+
+    it('should send images as base64 in the images field', async () => {
+        server.handler = (_req, res) =>
+            res.end(JSON.stringify({ message: { content: '고양이' }, done: true }));
+        const provider = new OllamaProvider({ endpoint: server.url, model: 'llava' });
+
+        await provider.chat([
+            {
+                role: 'user',
+                content: '뭐가 보여?',
+                images: [{ mimeType: 'image/png', data: 'aGVsbG8=' }],
+            },
+        ]);
+
+        expect(server.requests[0].body.messages[0].images).toEqual(['aGVsbG8=']);
+    });
+
+    it('should parse NDJSON lines split across chunks', async () => {
+        server.handler = (_req, res) => {
+            const lines = [
+                JSON.stringify({ message: { content: '안녕' }, done: false }),
+                JSON.stringify({ message: { content: '하세요' }, done: false }),
+                JSON.stringify({ done: true, prompt_eval_count: 3, eval_count: 2 }),
+            ].join('\n');
+            // 줄 중간에서 잘라 보내기
+            res.write(lines.slice(0, 20));
+            setTimeout(() => res.end(lines.slice(20) + '\n'), 10);
+        };
+        const provider = new OllamaProvider({ endpoint: server.url, model: 'llama3.2' });
+        const chunks: string[] = [];
+
+        const response = await provider.stream([{ role: 'user', content: 'hi' }], undefined, (chunk) => {
+            if (!chunk.done) {
+                chunks.push(chunk.text);
+            }
+        });
+
+        expect(chunks).toEqual(['안녕', '하세요']);
+        expect(response.text).toBe('안녕하세요');
+        expect(response.tokensUsed).toEqual({ prompt: 3, completion: 2, total: 5 });
+    });
+
+    it('should return tool calls with generated ids', async () => {
+        server.handler = (_req, res) =>
+            res.end(
+                JSON.stringify({
+                    message: {
+                        content: '',
+                        tool_calls: [{ function: { name: 'get_time', arguments: {} } }],
+                    },
+                    done: true,
+                })
+            );
+        const provider = new OllamaProvider({ endpoint: server.url, model: 'llama3.2' });
+
+        const response = await provider.chat([{ role: 'user', content: '몇 시야?' }]);
+
+        expect(response.toolCalls).toHaveLength(1);
+        expect(response.toolCalls?.[0].name).toBe('get_time');
+        expect(response.toolCalls?.[0].id).toBeDefined();
+    });
+
+    it('should list models and check health via /api/tags', async () => {
+        server.handler = (_req, res) =>
+            res.end(JSON.stringify({ models: [{ name: 'llama3.2:latest' }, { name: 'llava' }] }));
+        const provider = new OllamaProvider({ endpoint: server.url, model: 'llama3.2' });
+
+        expect(await provider.listModels()).toEqual(['llama3.2:latest', 'llava']);
+        expect(await provider.checkHealth()).toBe(true);
+        expect(server.requests.every((r) => r.url === '/api/tags')).toBe(true);
+    });
+});
@@ -0,0 +1,66 @@
+import {
+    OpenAICompatibleOptions,
+    OpenAICompatibleProvider,
+} from '../../../src/providers/openai-compatible';
+import { json, routeTo, useMockServer } from '../../helpers/mock-server';
+
+describe('OpenAICompatibleProvider', () => {
+    const server = useMockServer();
+    const routes = {
+        '/v1/models': json({ data: [{ id: 'm' }] }),
+        '/v1/chat/completions': json({
+            choices: [{ message: { content: '안녕하세요' } }],
+            usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+        }),
+    };
+
+    beforeEach(() => {
+        server.handler = routeTo(() => routes);
+    });
+
+    const createProvider = (options: Partial<OpenAICompatibleOptions> = {}) =>
+        new OpenAICompatibleProvider({ endpoint: `${server.url}/v1`, model: 'm', ...options });
+
+    it('should send model, bearer token and custom headers to /chat/completions', async () => {
+        const provider = createProvider({
+            model: 'team-model',
+            apiKey: 'secret',
+            headers: { 'X-Team': 'ai' },
+        });
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(response.text).toBe('안녕하세요');
+        expect(response.tokensUsed).toEqual({ prompt: 5, completion: 3, total: 8 });
+
+        const [request] = server.requests;
+        expect(request.url).toBe('/v1/chat/completions');
+        expect(request.headers.authorization).toBe('Bearer secret');
+        expect(request.headers['x-team']).toBe('ai');
+        expect(request.body.model).toBe('team-model');
+    });
+
+    it('should omit top_k unless configured', async () => {
+        await createProvider().chat([{ role: 'user', content: 'hi' }]);
+        await createProvider({ topK: 20 }).chat([{ role: 'user', content: 'hi' }]);
+
+        expect(server.requests[0].body).not.toHaveProperty('top_k');
+        expect(server.requests[1].body.top_k).toBe(20);
+    });
+
+    it('should check health via /models', async () => {
+        const provider = createProvider();
+
+        expect(await provider.checkHealth()).toBe(true);
+        expect(server.requests[0].url).toBe('/v1/models');
+    });
+
+    it('should reuse server info once fetched', async () => {
+        const provider = createProvider();
+
+        expect(await provider.getInfo()).toEqual({ model: 'm', models: ['m'] });
+        await provider.getInfo();
+
+        expect(server.requests.filter((r) => r.url === '/v1/models')).toHaveLength(1);
+    });
+});
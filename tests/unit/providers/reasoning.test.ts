@@ -0,0 +1,38 @@
+import { splitThinkTags, ThinkTagSplitter } from '../../../src/providers/reasoning';
+
+describe('ThinkTagSplitter', () => {
+    it('should split think blocks even when tags are cut across chunks', () => {
+        const splitter = new ThinkTagSplitter();
+
+        const parts = [
+            ...splitter.push('<thi'),
+            ...splitter.push('nk>사용자가 인사를 했다.</th'),
+            ...splitter.push('ink>\n\n안녕하세요'),
+            ...splitter.push('!'),
+            ...splitter.end(),
+        ];
+
+        expect(parts).toEqual([
+            { kind: 'reasoning', text: '사용자가 인사를 했다.' },
+            { kind: 'text', text: '안녕하세요' },
+            { kind: 'text', text: '!' },
+        ]);
+    });
+
+    it('should pass through text that only looks like the start of a tag', () => {
+        const splitter = new ThinkTagSplitter();
+
+        expect(splitter.push('a <')).toEqual([{ kind: 'text', text: 'a ' }]);
+        expect(splitter.push('b>')).toEqual([{ kind: 'text', text: '<b>' }]);
+    });
+});
+
+describe('splitThinkTags', () => {
+    it('should separate reasoning from the final answer', () => {
+        expect(splitThinkTags('<think>계산: 1+1=2</think>\n2입니다.')).toEqual({
+            text: '2입니다.',
+            reasoning: '계산: 1+1=2',
+        });
+        expect(splitThinkTags('그냥 답변')).toEqual({ text: '그냥 답변', reasoning: '' });
+    });
+});
@@ -0,0 +1,39 @@
+import { SseDecoder } from '../../../src/providers/sse';
+
+describe('SseDecoder', () => {
+    it('should join lines split across chunks', () => {
+        const decoder = new SseDecoder();
+
+        expect(decoder.push('data: {"content":')).toEqual([]);
+        expect(decoder.push(' "안녕"}\n\ndata: [DO')).toEqual([
+            { event: 'message', data: '{"content": "안녕"}' },
+        ]);
+        expect(decoder.push('NE]\n\n')).toEqual([{ event: 'message', data: '[DONE]' }]);
+    });
+
+    it('should decode multibyte characters split between buffers', () => {
+        const decoder = new SseDecoder();
+        const bytes = Buffer.from('data: 한글\n\n');
+
+        // '한'의 3바이트 중간에서 자름
+        expect(decoder.push(bytes.subarray(0, 8))).toEqual([]);
+        expect(decoder.push(bytes.subarray(8))).toEqual([{ event: 'message', data: '한글' }]);
+    });
+
+    it('should handle event names, multi-line data, comments and CRLF', () => {
+        const decoder = new SseDecoder();
+
+        const events = decoder.push(
+            ': keep-alive\r\nevent: error\r\ndata: first\r\ndata: second\r\n\r\n'
+        );
+
+        expect(events).toEqual([{ event: 'error', data: 'first\nsecond' }]);
+    });
+
+    it('should flush a trailing event without a blank line on end', () => {
+        const decoder = new SseDecoder();
+
+        expect(decoder.push('data: last')).toEqual([]);
+        expect(decoder.end()).toEqual([{ event: 'message', data: 'last' }]);
+    });
+});
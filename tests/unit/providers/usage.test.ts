@@ -0,0 +1,90 @@
+import { BaseProvider, ChatResponse, StreamChunk } from '../../../src/providers/base';
+import { FallbackProvider } from '../../../src/providers/fallback';
+import { NetworkError } from '../../../src/providers/errors';
+import { UsageTrackingProvider } from '../../../src/providers/usage';
+import { Message, TokenUsage } from '../../../src/config/types';
+
+/**
+ * 정해진 사용량으로 응답하는 프로바이더
+ */
+class FixedProvider extends BaseProvider {
+    readonly name = 'fixed';
+
+    constructor(private tokensUsed?: TokenUsage, private fail = false) {
+        super();
+    }
+
+    async chat(_messages: Message[]): Promise<ChatResponse> {
+        if (this.fail) {
+            throw new NetworkError('연결 실패');
+        }
+        return { text: 'ok', tokensUsed: this.tokensUsed };
+    }
+
+    async stream(
+        _messages: Message[],
+        _systemPrompt: string | undefined,
+        onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatResponse> {
+        onChunk({ text: 'ok', done: false });
+        onChunk({ text: '', done: true });
+        return { text: 'ok', tokensUsed: this.tokensUsed };
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return text.length;
+    }
+
+    async getContextWindow(): Promise<number> {
+        return 4096;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return true;
+    }
+}
+
+const messages: Message[] = [{ role: 'user', content: 'hi' }];
+const tokens: TokenUsage = { prompt: 3, completion: 2, total: 5 };
+
+describe('UsageTrackingProvider', () => {
+    it('should report usage of chat and stream responses', async () => {
+        const onUsage = jest.fn();
+        const inner = new FixedProvider(tokens);
+        const provider = new UsageTrackingProvider(inner, onUsage);
+
+        await provider.chat(messages);
+        const chunks: StreamChunk[] = [];
+        await provider.stream(messages, undefined, (chunk) => chunks.push(chunk));
+
+        expect(provider.name).toBe('fixed');
+        expect(chunks).toHaveLength(2);
+        expect(onUsage.mock.calls).toEqual([
+            [tokens, false, inner],
+            [tokens, true, inner],
+        ]);
+    });
+
+    it('should report the provider that served a fallback chain', async () => {
+        const onUsage = jest.fn();
+        const primary = new FixedProvider(tokens, true);
+        const fallback = new FixedProvider(tokens);
+        const provider = new UsageTrackingProvider(
+            new FallbackProvider([primary, fallback]),
+            onUsage
+        );
+
+        await provider.chat(messages);
+
+        expect(onUsage).toHaveBeenCalledWith(tokens, false, fallback);
+    });
+
+    it('should skip responses without usage', async () => {
+        const onUsage = jest.fn();
+        const provider = new UsageTrackingProvider(new FixedProvider(), onUsage);
+
+        await provider.chat(messages);
+
+        expect(onUsage).not.toHaveBeenCalled();
+    });
+});
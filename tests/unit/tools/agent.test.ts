@@ -0,0 +1,218 @@
+import { runAgentLoop, summarizeToolResult } from '../../../src/tools/agent';
+import { ToolRegistry } from '../../../src/tools/registry';
+import { BaseProvider, ChatResponse, StreamChunk } from '../../../src/providers/base';
+import { Message, Tool } from '../../../src/config/types';
+
+/**
+ * 미리 정해진 응답을 순서대로 돌려주는 테스트용 프로바이더
+ */
+class ScriptedProvider extends BaseProvider {
+    readonly name = 'scripted';
+    calls: Message[][] = [];
+    signals: (AbortSignal | undefined)[] = [];
+
+    constructor(private responses: ChatResponse[]) {
+        super();
+    }
+
+    async chat(
+        messages: Message[],
+        _systemPrompt?: string,
+        _tools?: Tool[],
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        this.calls.push(messages);
+        this.signals.push(signal);
+        return this.responses.shift() ?? { text: 'done' };
+    }
+
+    async stream(
+        messages: Message[],
+        systemPrompt: string | undefined,
+        _onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatResponse> {
+        return this.chat(messages, systemPrompt);
+    }
+
+    async countTokens(text: string): Promise<number> {
+        return text.length;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return true;
+    }
+
+    async getContextWindow(): Promise<number> {
+        return 8192;
+    }
+}
+
+describe('Agent Loop', () => {
+    const userMessage: Message = { role: 'user', content: '지금 몇 시야?' };
+
+    it('should return final answer when no tool calls are proposed', async () => {
+        const provider = new ScriptedProvider([{ text: '안녕하세요' }]);
+
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+        });
+
+        expect(result.stopReason).toBe('final');
+        expect(result.text).toBe('안녕하세요');
+        expect(result.steps).toBe(1);
+        expect(result.messages).toHaveLength(1);
+    });
+
+    it('should execute tool calls and feed results back as function messages', async () => {
+        const provider = new ScriptedProvider([
+            { text: '', toolCalls: [{ id: 'call_1', name: 'get_time', arguments: {} }] },
+            { text: '지금은 오후입니다.' },
+        ]);
+        const onToolResult = jest.fn();
+
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+            onToolResult,
+        });
+
+        expect(result.stopReason).toBe('final');
+        expect(result.steps).toBe(2);
+        expect(onToolResult).toHaveBeenCalledTimes(1);
+
+        const functionMessage = result.messages[1];
+        expect(functionMessage.role).toBe('function');
+        expect(functionMessage.name).toBe('get_time');
+        expect(functionMessage.toolCallId).toBe('call_1');
+        expect(JSON.parse(functionMessage.content).time).toBeDefined();
+
+        // 두 번째 호출에는 도구 결과가 포함되어야 함
+        expect(provider.calls[1]).toHaveLength(3);
+    });
+
+    it('should report unknown tools as errors instead of throwing', async () => {
+        const provider = new ScriptedProvider([
+            { text: '', toolCalls: [{ id: 'call_1', name: 'no_such_tool', arguments: {} }] },
+            { text: '실패했습니다.' },
+        ]);
+
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+        });
+
+        expect(JSON.parse(result.messages[1].content).error).toContain('no_such_tool');
+    });
+
+    it('should stop at the step limit', async () => {
+        const toolCall = { id: 'call_1', name: 'get_time', arguments: {} };
+        const provider = new ScriptedProvider([
+            { text: '', toolCalls: [toolCall] },
+            { text: '', toolCalls: [toolCall] },
+            { text: '', toolCalls: [toolCall] },
+        ]);
+
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+            maxSteps: 2,
+        });
+
+        expect(result.stopReason).toBe('max-steps');
+        expect(provider.calls).toHaveLength(2);
+    });
+
+    it('should stop when aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const provider = new ScriptedProvider([{ text: '응답' }]);
+
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+            signal: controller.signal,
+        });
+
+        expect(result.stopReason).toBe('aborted');
+        expect(result.steps).toBe(0);
+    });
+
+    it('should answer unexecuted tool calls when aborted between them', async () => {
+        const controller = new AbortController();
+        const provider = new ScriptedProvider([
+            {
+                text: '',
+                toolCalls: [
+                    { id: 'call_1', name: 'get_time', arguments: {} },
+                    { id: 'call_2', name: 'get_time', arguments: {} },
+                ],
+            },
+        ]);
+
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+            signal: controller.signal,
+            onToolResult: () => controller.abort(),
+        });
+
+        expect(result.stopReason).toBe('aborted');
+        expect(provider.signals[0]).toBe(controller.signal);
+        // 모든 도구 호출에 대응하는 function 메시지가 있어야 다음 요청이 유효함
+        expect(result.messages.map((msg) => [msg.role, msg.toolCallId])).toEqual([
+            ['assistant', undefined],
+            ['function', 'call_1'],
+            ['function', 'call_2'],
+        ]);
+        expect(JSON.parse(result.messages[2].content).error).toContain('중단');
+    });
+
+    it('should kill a running command when aborted', async () => {
+        const controller = new AbortController();
+        const provider = new ScriptedProvider([
+            {
+                text: '',
+                toolCalls: [
+                    { id: 'call_1', name: 'run_command', arguments: { command: 'sleep 5' } },
+                ],
+            },
+        ]);
+        setTimeout(() => controller.abort(), 200);
+
+        const started = Date.now();
+        const result = await runAgentLoop({
+            provider,
+            registry: new ToolRegistry(),
+            messages: [userMessage],
+            signal: controller.signal,
+        });
+
+        expect(Date.now() - started).toBeLessThan(3000);
+        expect(result.stopReason).toBe('aborted');
+        const output = JSON.parse(result.messages[1].content);
+        expect(output.success).toBe(false);
+        expect(output.stderr).toContain('중단');
+    });
+
+    describe('summarizeToolResult', () => {
+        it('should summarize errors', () => {
+            expect(summarizeToolResult({ error: 'Access denied' })).toBe('오류: Access denied');
+        });
+
+        it('should summarize file content by length', () => {
+            expect(summarizeToolResult({ content: 'abc' })).toBe('3자 읽음');
+        });
+
+        it('should truncate long results', () => {
+            const summary = summarizeToolResult('x'.repeat(200), 10);
+            expect(summary).toBe(`${'x'.repeat(10)}…`);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { PermissionManager, resolveAllowedTools } from '../../../src/tools/permissions';
+import { ToolRegistry } from '../../../src/tools/registry';
+import { GlobalConfig, Tool } from '../../../src/config/types';
+
+describe('Tool Permissions', () => {
+    const writeTool: Tool = {
+        name: 'write_file',
+        description: 'write',
+        parameters: { type: 'object', properties: {} },
+        permission: 'write',
+        execute: async () => ({ success: true }),
+    };
+
+    describe('resolveAllowedTools', () => {
+        const globalConfig = { allowedTools: ['read'] } as GlobalConfig;
+
+        it('should use global settings without project config', () => {
+            expect(resolveAllowedTools(globalConfig, null)).toEqual(['read']);
+        });
+
+        it('should let project settings override global ones', () => {
+            expect(resolveAllowedTools(globalConfig, { allowedTools: ['read', 'bash'] })).toEqual([
+                'read',
+                'bash',
+            ]);
+        });
+
+        it('should fall back to global when project omits allowedTools', () => {
+            expect(resolveAllowedTools(globalConfig, { name: 'demo' })).toEqual(['read']);
+        });
+    });
+
+    describe('PermissionManager', () => {
+        it('should allow permissions in the allowed set without prompting', async () => {
+            const prompt = jest.fn();
+            const manager = new PermissionManager(['write'], prompt);
+
+            expect(await manager.check(writeTool, {})).toBe(true);
+            expect(prompt).not.toHaveBeenCalled();
+        });
+
+        it('should deny without a prompt', async () => {
+            const manager = new PermissionManager(['read']);
+
+            expect(await manager.check(writeTool, {})).toBe(false);
+        });
+
+        it('should ask every time for allow once', async () => {
+            const prompt = jest.fn().mockResolvedValue('once');
+            const manager = new PermissionManager(['read'], prompt);
+
+            await manager.check(writeTool, {});
+            await manager.check(writeTool, {});
+
+            expect(prompt).toHaveBeenCalledTimes(2);
+        });
+
+        it('should remember session grants', async () => {
+            const prompt = jest.fn().mockResolvedValue('session');
+            const persist = jest.fn();
+            const manager = new PermissionManager(['read'], prompt, persist);
+
+            expect(await manager.check(writeTool, {})).toBe(true);
+            expect(await manager.check(writeTool, {})).toBe(true);
+
+            expect(prompt).toHaveBeenCalledTimes(1);
+            expect(persist).not.toHaveBeenCalled();
+        });
+
+        it('should persist always-allow decisions', async () => {
+            const prompt = jest.fn().mockResolvedValue('always');
+            const persist = jest.fn().mockResolvedValue(undefined);
+            const manager = new PermissionManager(['read'], prompt, persist);
+
+            expect(await manager.check(writeTool, {})).toBe(true);
+
+            expect(persist).toHaveBeenCalledWith('write');
+            expect(manager.isAllowed('write')).toBe(true);
+        });
+
+        it('should deny when the user refuses', async () => {
+            const manager = new PermissionManager(['read'], jest.fn().mockResolvedValue('deny'));
+
+            expect(await manager.check(writeTool, {})).toBe(false);
+        });
+    });
+
+    describe('ToolRegistry with permissions', () => {
+        it('should return a structured error for denied tools', async () => {
+            const registry = new ToolRegistry({ permissions: new PermissionManager(['read']) });
+
+            const result = await registry.execute('run_command', { command: 'ls' });
+
+            expect(result.code).toBe('PERMISSION_DENIED');
+            expect(result.tool).toBe('run_command');
+            expect(result.permission).toBe('bash');
+            expect(result.error).toContain('Permission denied');
+        });
+
+        it('should run allowed tools', async () => {
+            const registry = new ToolRegistry({ permissions: new PermissionManager(['read']) });
+
+            const result = await registry.execute('get_time', {});
+
+            expect(result.time).toBeDefined();
+        });
+    });
+});
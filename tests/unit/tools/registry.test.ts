@@ -0,0 +1,63 @@
+import { ToolRegistry } from '../../../src/tools/registry';
+
+describe('ToolRegistry run_command', () => {
+    it('should hard-block dangerous commands without asking', async () => {
+        const confirmCommand = jest.fn();
+        const registry = new ToolRegistry({ confirmCommand });
+
+        const result = await registry.execute('run_command', { command: 'rm -rf /' });
+
+        expect(result.code).toBe('COMMAND_BLOCKED');
+        expect(confirmCommand).not.toHaveBeenCalled();
+    });
+
+    it('should reject warning-level commands when not confirmed', async () => {
+        const confirmCommand = jest.fn().mockResolvedValue(false);
+        const registry = new ToolRegistry({ confirmCommand });
+
+        const result = await registry.execute('run_command', { command: 'sudo ls' });
+
+        expect(confirmCommand).toHaveBeenCalledWith('sudo ls', expect.stringContaining('주의'));
+        expect(result.code).toBe('COMMAND_REJECTED');
+    });
+
+    it('should reject warning-level commands without a confirm hook', async () => {
+        const registry = new ToolRegistry();
+
+        const result = await registry.execute('run_command', { command: 'sudo ls' });
+
+        expect(result.code).toBe('COMMAND_REJECTED');
+    });
+
+    it('should return a full CommandResult for safe commands', async () => {
+        const registry = new ToolRegistry();
+
+        const result = await registry.execute('run_command', { command: 'echo hello' });
+
+        expect(result).toEqual({
+            command: 'echo hello',
+            stdout: 'hello',
+            stderr: '',
+            exitCode: 0,
+            success: true,
+        });
+    });
+
+    it('should report non-zero exit codes', async () => {
+        const registry = new ToolRegistry();
+
+        const result = await registry.execute('run_command', { command: 'exit 3' });
+
+        expect(result.success).toBe(false);
+        expect(result.exitCode).toBe(3);
+    });
+
+    it('should apply the configured timeout', async () => {
+        const registry = new ToolRegistry({ commandOptions: { timeout: 100 } });
+
+        const result = await registry.execute('run_command', { command: 'sleep 2' });
+
+        expect(result.success).toBe(false);
+        expect(result.stderr).toContain('시간 초과');
+    });
+});